@@ -9,10 +9,14 @@ import { WelcomeBox } from './components/WelcomeBox';
 import { MobileOverlay } from './components/MobileOverlay';
 import { ControlsPanel } from './components/ControlsPanel';
 import { Recorder } from './logic/recorder';
-import { Pilot } from './logic/pilot';
+import { Pilot, isTextEntryTarget } from './logic/pilot';
 import { Playback } from './logic/playback';
 import { Exporter } from './logic/export';
-import { SpeedLevel, SmoothingOptions, ExportOptions } from './types';
+import { parseDeforumSettings, readSessionSettings } from './logic/settings';
+import { parseSchedule } from './logic/schedule';
+import { generateBlenderScript, parseBlenderCamera, BLENDER_CAMERA_EXPORT_SCRIPT } from './logic/blender';
+import { generateGLTF, generateGLB } from './logic/gltf';
+import { SpeedLevel, SmoothingOptions, MotionLimits, ShakeOptions, ExportOptions, SessionSettings, TakeSummary, PunchInOptions, RecordArming, DeforumPreview } from './types';
 import * as THREE from 'three';
 
 export function App() {
@@ -24,7 +28,14 @@ export function App() {
   const [speedLevel, setSpeedLevel] = useState<SpeedLevel>(1);
   const [speed, setSpeed] = useState(1.0);
   const [targetFPS, setTargetFPS] = useState(30);
+  const [recordTimeScale, setRecordTimeScale] = useState(1);
   const [isMobile, setIsMobile] = useState(false);
+  const [takes, setTakes] = useState<TakeSummary[]>([]);
+  const [activeTakeId, setActiveTakeId] = useState<string | null>(null);
+  const [viewportAspect, setViewportAspect] = useState<number | null>(null);
+  const [maxFrames, setMaxFrames] = useState<number | null>(null);
+  const [deforumPreview, setDeforumPreview] = useState<DeforumPreview | null>(null);
+  const [showDeforumPreview, setShowDeforumPreview] = useState(true);
 
   // Refs for logic classes
   const recorderRef = useRef<Recorder | null>(null);
@@ -32,6 +43,8 @@ export function App() {
   const playbackRef = useRef<Playback | null>(null);
   const exporterRef = useRef<Exporter | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  // Punch-in waiting for its pre-roll playback to reach the punch-in frame
+  const pendingPunchInRef = useRef<PunchInOptions | null>(null);
 
   // Initialize logic classes
   useEffect(() => {
@@ -62,12 +75,46 @@ export function App() {
     }
   }, []);
 
+  // Sync take list and active take from the recorder
+  const refreshTakes = useCallback(() => {
+    if (recorderRef.current) {
+      setTakes(recorderRef.current.getTakes());
+      setActiveTakeId(recorderRef.current.getActiveTakeId());
+      setTotalFrames(recorderRef.current.getTotalFrames());
+      // Any edit makes the last export's preview stale
+      setDeforumPreview(null);
+    }
+  }, []);
+
+  // Hand control to the pilot from the last kept pose and start the overdub
+  const beginPunchIn = useCallback((options: PunchInOptions) => {
+    pendingPunchInRef.current = null;
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    // Hand over on the unshaken path, which is what gets re-recorded
+    const handoverState = recorder.getCameraStateAtFrame(Math.max(0, options.punchIn - 1), false);
+    if (handoverState && pilotRef.current) {
+      pilotRef.current.setCameraState(handoverState.position, handoverState.rotation, handoverState.fov);
+    }
+    if (recorder.startPunchIn(options)) {
+      setIsRecording(true);
+      setCurrentFrame(options.punchIn);
+      refreshTakes();
+    }
+  }, [refreshTakes]);
+
   // Main update loop
   const handleFrame = useCallback((camera: THREE.PerspectiveCamera, deltaTime: number) => {
     if (!recorderRef.current || !pilotRef.current) return;
 
     // Update pilot controls
     pilotRef.current.update(deltaTime);
+
+    // Disarmed channels follow the guide take while recording
+    if (recorderRef.current.isCurrentlyRecording() && playbackRef.current) {
+      playbackRef.current.driveDisarmedChannels(camera);
+    }
     
     // Update speed display
     setSpeed(pilotRef.current.getSpeed());
@@ -75,11 +122,23 @@ export function App() {
 
     // Update recorder
     recorderRef.current.update(camera, deltaTime);
+
+    // Recorder stops by itself when a punch-in reaches its punch-out frame
+    if (isRecording && !recorderRef.current.isCurrentlyRecording()) {
+      setIsRecording(false);
+      refreshTakes();
+    }
     
     // Update playback
     if (isPlaying && playbackRef.current) {
       const playbackUpdated = playbackRef.current.update(deltaTime);
-      if (!playbackUpdated) {
+      const pendingPunchIn = pendingPunchInRef.current;
+      if (pendingPunchIn && playbackRef.current.getCurrentFrame() >= pendingPunchIn.punchIn) {
+        // Pre-roll done
+        playbackRef.current.stopPlayback();
+        setIsPlaying(false);
+        beginPunchIn(pendingPunchIn);
+      } else if (!playbackUpdated) {
         // Playback ended
         setIsPlaying(false);
         setCurrentFrame(0);
@@ -100,7 +159,7 @@ export function App() {
 
     // Update frame counts
     setTotalFrames(recorderRef.current.getTotalFrames());
-  }, [isPlaying]);
+  }, [isPlaying, isRecording, refreshTakes, beginPunchIn]);
 
   // Recording controls
   const handleStartRecording = useCallback(() => {
@@ -108,16 +167,34 @@ export function App() {
       recorderRef.current.startRecording();
       setIsRecording(true);
       setCurrentFrame(0);
+      refreshTakes();
     }
-  }, [isPlaying]);
+  }, [isPlaying, refreshTakes]);
 
   const handleStopRecording = useCallback(() => {
     if (recorderRef.current) {
       recorderRef.current.stopRecording();
       setIsRecording(false);
-      setTotalFrames(recorderRef.current.getTotalFrames());
+      refreshTakes();
     }
-  }, []);
+  }, [refreshTakes]);
+
+  // Punch-in: optional pre-roll playback, then record over the active take
+  const handleStartPunchIn = useCallback((options: PunchInOptions) => {
+    if (!recorderRef.current || !playbackRef.current || isRecording || isPlaying || totalFrames === 0) return;
+
+    const preRollStart = Math.max(0, options.punchIn - Math.max(0, options.preRollFrames));
+    if (preRollStart >= options.punchIn) {
+      beginPunchIn(options);
+      return;
+    }
+
+    pendingPunchInRef.current = options;
+    playbackRef.current.startPlayback();
+    playbackRef.current.seekToFrame(preRollStart);
+    setIsPlaying(true);
+    setCurrentFrame(preRollStart);
+  }, [isRecording, isPlaying, totalFrames, beginPunchIn]);
 
   // Playback controls
   const handleStartPlayback = useCallback(() => {
@@ -130,12 +207,66 @@ export function App() {
 
   const handleStopPlayback = useCallback(() => {
     if (playbackRef.current) {
+      pendingPunchInRef.current = null;
       playbackRef.current.stopPlayback();
       setIsPlaying(false);
       setCurrentFrame(0);
     }
   }, []);
 
+  // Take controls (playback always follows the active take)
+  const handleSelectTake = useCallback((id: string) => {
+    if (!recorderRef.current || isRecording) return;
+    if (playbackRef.current && isPlaying) {
+      playbackRef.current.stopPlayback();
+      setIsPlaying(false);
+    }
+    recorderRef.current.setActiveTake(id);
+    setCurrentFrame(0);
+    refreshTakes();
+  }, [isRecording, isPlaying, refreshTakes]);
+
+  const handleRenameTake = useCallback((id: string, name: string) => {
+    if (recorderRef.current) {
+      recorderRef.current.renameTake(id, name);
+      refreshTakes();
+    }
+  }, [refreshTakes]);
+
+  const handleDuplicateTake = useCallback((id: string) => {
+    if (!recorderRef.current || isRecording) return;
+    if (playbackRef.current && isPlaying) {
+      playbackRef.current.stopPlayback();
+      setIsPlaying(false);
+    }
+    recorderRef.current.duplicateTake(id);
+    setCurrentFrame(0);
+    refreshTakes();
+  }, [isRecording, isPlaying, refreshTakes]);
+
+  const handleDeleteTake = useCallback((id: string) => {
+    if (!recorderRef.current || isRecording) return;
+    if (playbackRef.current && isPlaying) {
+      playbackRef.current.stopPlayback();
+      setIsPlaying(false);
+    }
+    recorderRef.current.deleteTake(id);
+    setCurrentFrame(0);
+    refreshTakes();
+  }, [isRecording, isPlaying, refreshTakes]);
+
+  const handleSetRecordArming = useCallback((arming: RecordArming) => {
+    if (recorderRef.current) {
+      recorderRef.current.setArming(arming);
+    }
+  }, []);
+
+  const handleSetTakeExportOptions = useCallback((options: ExportOptions) => {
+    if (recorderRef.current) {
+      recorderRef.current.setExportOptions(options);
+    }
+  }, []);
+
   // Camera controls
   const handleResetCamera = useCallback(() => {
     if (pilotRef.current) {
@@ -152,6 +283,14 @@ export function App() {
     }
   }, []);
 
+  // Slow-motion recording
+  const handleSetRecordTimeScale = useCallback((scale: number) => {
+    if (recorderRef.current) {
+      recorderRef.current.setTimeScale(scale);
+      setRecordTimeScale(recorderRef.current.getTimeScale());
+    }
+  }, []);
+
   // Mouse sensitivity controls
   const handleSetMouseSensitivity = useCallback((sensitivity: number) => {
     if (pilotRef.current) {
@@ -186,29 +325,94 @@ export function App() {
     if (needsUpdate) cam.updateProjectionMatrix();
   }, []);
 
-  // Smoothing controls
-  const handleApplySmoothing = useCallback((options: SmoothingOptions) => {
+  // Smoothing controls (live slider changes collapse into one history entry)
+  const handleApplySmoothing = useCallback((options: SmoothingOptions, live?: boolean) => {
     if (recorderRef.current) {
-      recorderRef.current.applySmoothing(options);
+      recorderRef.current.applySmoothing(options, live ? 'live-smoothing' : undefined);
+      refreshTakes();
     }
-  }, []);
+  }, [refreshTakes]);
 
-  const handleRevertSmoothing = useCallback(() => {
+  const handleRevertSmoothing = useCallback((live?: boolean) => {
     if (recorderRef.current) {
-      recorderRef.current.revertSmoothing();
+      recorderRef.current.revertSmoothing(live ? 'live-smoothing' : undefined);
+      refreshTakes();
     }
-  }, []);
+  }, [refreshTakes]);
+
+  const handleApplyMotionLimits = useCallback((limits: MotionLimits): number[] => {
+    if (!recorderRef.current || isRecording) return [];
+    const clampedFrames = recorderRef.current.applyMotionLimits(limits);
+    refreshTakes();
+    return clampedFrames;
+  }, [isRecording, refreshTakes]);
+
+  const handleSetShake = useCallback((shake: ShakeOptions | null) => {
+    if (recorderRef.current) {
+      recorderRef.current.setShake(shake);
+      refreshTakes();
+    }
+  }, [refreshTakes]);
+
+  const handleTrim = useCallback((frameStart: number, frameEnd: number) => {
+    if (recorderRef.current && !isRecording) {
+      recorderRef.current.trim(frameStart, frameEnd);
+      refreshTakes();
+    }
+  }, [isRecording, refreshTakes]);
+
+  // Edit history
+  const handleUndo = useCallback(() => {
+    if (recorderRef.current?.undo()) {
+      refreshTakes();
+    }
+  }, [refreshTakes]);
+
+  const handleRedo = useCallback(() => {
+    if (recorderRef.current?.redo()) {
+      refreshTakes();
+    }
+  }, [refreshTakes]);
+
+  const handleGoToHistory = useCallback((index: number) => {
+    if (recorderRef.current?.goToHistory(index)) {
+      refreshTakes();
+    }
+  }, [refreshTakes]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), ignored while typing in a field
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.code !== 'KeyZ') return;
+      if (isTextEntryTarget(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo]);
 
   // Export controls
   const handleExportSchedules = useCallback(async (options: ExportOptions) => {
-    if (recorderRef.current && exporterRef.current) {
-      const channelArrays = recorderRef.current.getChannelArrays();
+    if (recorderRef.current && exporterRef.current && cameraRef.current) {
+      // Export what playback shows, shake layer included
+      const channelArrays = recorderRef.current.getOutputChannelArrays();
       if (channelArrays) {
-        const schedules = exporterRef.current.generateSchedules(channelArrays, options);
+        recorderRef.current.setExportOptions(options);
+        const { near, far } = cameraRef.current;
+        const schedules = options.animationMode === '2D'
+          ? exporterRef.current.generate2DSchedules(channelArrays, options)
+          : exporterRef.current.generateSchedules(channelArrays, options, { near, far });
         const json = exporterRef.current.generateJSON(schedules);
         const pretty = exporterRef.current.generatePrettySchedules(schedules);
-        
-        return { schedules, json, pretty };
+        const report = exporterRef.current.getLastReport();
+        setDeforumPreview(options.animationMode === '2D' ? null : exporterRef.current.getLastPreview());
+
+        return { schedules, json, pretty, report };
       } else {
         throw new Error('No recorded data available for export');
       }
@@ -217,6 +421,177 @@ export function App() {
     }
   }, []);
 
+  // Download the take as a Parseq manifest
+  const handleExportParseq = useCallback((options: ExportOptions, variant: 'delta' | 'absolute') => {
+    const recorder = recorderRef.current;
+    const exporter = exporterRef.current;
+    if (!recorder || !exporter) {
+      throw new Error('Recorder or exporter not initialized');
+    }
+    const channelArrays = recorder.getOutputChannelArrays();
+    if (!channelArrays) {
+      throw new Error('No recorded data available for export');
+    }
+
+    recorder.setExportOptions(options);
+    const manifest = exporter.generateParseqManifest(channelArrays, options, variant, targetFPS);
+    exporter.downloadAsFile(manifest, `parseq_manifest_${variant}.json`);
+  }, [targetFPS]);
+
+  // Configure FPS, view aspect, lens and record limit from a Deforum settings file
+  const handleImportSettings = useCallback((settingsText: string, options: ExportOptions): SessionSettings => {
+    const session = readSessionSettings(parseDeforumSettings(settingsText));
+
+    if (session.fps) {
+      handleSetTargetFPS(session.fps);
+    }
+    if (session.width && session.height) {
+      setViewportAspect(session.width / session.height);
+    }
+    // near/far are in Deforum units; convert back with the export's translation scale
+    const unitScale = exporterRef.current?.getTranslationUnitScale(options) ?? 1;
+    handleSetCameraParams({
+      fov: session.fov,
+      near: session.near !== undefined ? session.near / unitScale : undefined,
+      far: session.far !== undefined ? session.far / unitScale : undefined
+    });
+    if (session.maxFrames && recorderRef.current) {
+      recorderRef.current.setMaxFrames(session.maxFrames);
+      setMaxFrames(recorderRef.current.getMaxFrames());
+    }
+
+    return session;
+  }, [handleSetTargetFPS, handleSetCameraParams]);
+
+  // Rebuild the camera path from a settings file's schedules and load it as a new take
+  const handleImportPath = useCallback((settingsText: string, options: ExportOptions, name: string) => {
+    const recorder = recorderRef.current;
+    const exporter = exporterRef.current;
+    if (!recorder || !exporter) {
+      throw new Error('Recorder or exporter not initialized');
+    }
+    if (isRecording) {
+      throw new Error('Stop recording before importing a path');
+    }
+
+    const settings = parseDeforumSettings(settingsText);
+    if (settings.animation_mode === '2D') {
+      throw new Error('Only 3D schedules can be imported as a camera path');
+    }
+    const keys = ['translation_x', 'translation_y', 'translation_z', 'rotation_3d_x', 'rotation_3d_y', 'rotation_3d_z'] as const;
+    const schedules = Object.fromEntries(keys.map(key => {
+      const value = settings[key];
+      if (typeof value !== 'string') throw new Error(`Settings have no ${key} schedule`);
+      return [key, value];
+    })) as Record<typeof keys[number], string>;
+    const fovSchedule = typeof settings.fov_schedule === 'string' ? settings.fov_schedule : undefined;
+
+    // Cover every key, or the whole render when max_frames says so
+    const lastKey = Math.max(...keys.map(key => {
+      const parsed = parseSchedule(schedules[key]);
+      return parsed.length > 0 ? parsed[parsed.length - 1].frame : 0;
+    }));
+    const maxFrames = typeof settings.max_frames === 'number' ? settings.max_frames : 0;
+    const frameCount = Math.max(lastKey + 1, maxFrames);
+
+    // Start where Reset Camera puts the pilot
+    const arrays = exporter.pathFromSchedules({ ...schedules, fov_schedule: fovSchedule }, frameCount, options, {
+      position: new THREE.Vector3(0, 1, 0),
+      rotation: new THREE.Euler(0, 0, 0, 'YXZ'),
+      fov: cameraRef.current?.fov ?? 70
+    });
+    recorder.importTake(name, arrays);
+    refreshTakes();
+  }, [isRecording, refreshTakes]);
+
+  // Merge the take into a loaded Deforum settings file and download it
+  const handleExportSettingsFile = useCallback((options: ExportOptions, settingsText: string, fileName: string) => {
+    const recorder = recorderRef.current;
+    const exporter = exporterRef.current;
+    const camera = cameraRef.current;
+    if (!recorder || !exporter || !camera) {
+      throw new Error('Recorder or exporter not initialized');
+    }
+    const channelArrays = recorder.getOutputChannelArrays();
+    if (!channelArrays) {
+      throw new Error('No recorded data available for export');
+    }
+
+    recorder.setExportOptions(options);
+    const schedules = options.animationMode === '2D'
+      ? exporter.generate2DSchedules(channelArrays, options)
+      : exporter.generateSchedules(channelArrays, options, { near: camera.near, far: camera.far });
+    // Deforum renders from frame 0, so the export range is renumbered to start there
+    const maxFrames = Math.min(options.frameEnd, channelArrays.translation_x.length - 1) - options.frameStart + 1;
+    const merged = exporter.mergeIntoSettings(settingsText, schedules, maxFrames, options.frameStart);
+    exporter.downloadAsFile(merged, fileName.replace(/(\.txt|\.json)?$/i, '_pilot$1'));
+  }, []);
+
+  // Download the take as an animated glTF camera, shake included like playback
+  const handleExportGLTF = useCallback((format: 'gltf' | 'glb') => {
+    const recorder = recorderRef.current;
+    const exporter = exporterRef.current;
+    const camera = cameraRef.current;
+    if (!recorder || !exporter || !camera) {
+      throw new Error('Recorder or exporter not initialized');
+    }
+
+    const states = [];
+    for (let frame = 0; frame < recorder.getTotalFrames(); frame++) {
+      const state = recorder.getCameraStateAtFrame(frame);
+      if (state) states.push(state);
+    }
+    if (states.length === 0) {
+      throw new Error('No recorded data available for export');
+    }
+
+    const name = takes.find(take => take.id === activeTakeId)?.name ?? 'Pilot Camera';
+    const options = { name, fps: targetFPS, aspectRatio: camera.aspect, near: camera.near, far: camera.far };
+    const fileName = `${name.replace(/[^\w-]+/g, '_')}_camera.${format}`;
+    if (format === 'glb') {
+      exporter.downloadAsFile(generateGLB(states, options), fileName, 'model/gltf-binary');
+    } else {
+      exporter.downloadAsFile(generateGLTF(states, options), fileName, 'model/gltf+json');
+    }
+  }, [takes, activeTakeId, targetFPS]);
+
+  // Download the take as a Blender script that builds a keyframed camera
+  const handleExportBlender = useCallback(() => {
+    const recorder = recorderRef.current;
+    const exporter = exporterRef.current;
+    const camera = cameraRef.current;
+    if (!recorder || !exporter || !camera) {
+      throw new Error('Recorder or exporter not initialized');
+    }
+    const channelArrays = recorder.getOutputChannelArrays();
+    if (!channelArrays) {
+      throw new Error('No recorded data available for export');
+    }
+
+    const name = takes.find(take => take.id === activeTakeId)?.name ?? 'Pilot Camera';
+    const script = generateBlenderScript(channelArrays, targetFPS, { near: camera.near, far: camera.far }, name);
+    exporter.downloadAsFile(script, `${name.replace(/[^\w-]+/g, '_')}_camera.py`);
+  }, [takes, activeTakeId, targetFPS]);
+
+  // Script artists run in Blender to bake a camera for import
+  const handleDownloadBlenderBakeScript = useCallback(() => {
+    exporterRef.current?.downloadAsFile(BLENDER_CAMERA_EXPORT_SCRIPT, 'pilot_camera_export.py');
+  }, []);
+
+  // Load a camera baked out of Blender as a new take, resampled to the session FPS
+  const handleImportBlenderCamera = useCallback((text: string, name: string) => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      throw new Error('Recorder not initialized');
+    }
+    if (isRecording) {
+      throw new Error('Stop recording before importing a camera');
+    }
+
+    recorder.importTake(name, parseBlenderCamera(text, targetFPS));
+    refreshTakes();
+  }, [isRecording, targetFPS, refreshTakes]);
+
   // Removed unused copy/download handlers
 
   // Cleanup on unmount
@@ -234,10 +609,23 @@ export function App() {
     );
   }
 
+  // Drift of the previewed Deforum path at a take frame, null outside the exported range
+  const deforumErrorAt = (frame: number) => {
+    if (!deforumPreview || !showDeforumPreview) return null;
+    const index = frame - deforumPreview.frameStart;
+    if (index < 0 || index >= deforumPreview.positionErrors.length) return null;
+    return { position: deforumPreview.positionErrors[index], rotation: deforumPreview.rotationErrors[index] };
+  };
+
   return (
     <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
       {/* 3D Scene */}
-      <Scene onCameraReady={handleCameraReady} onFrame={handleFrame} />
+      <Scene
+        onCameraReady={handleCameraReady}
+        onFrame={handleFrame}
+        aspect={viewportAspect}
+        deforumPreview={showDeforumPreview && !isRecording ? deforumPreview : null}
+      />
       
       {/* HUD */}
       <HUD
@@ -248,6 +636,9 @@ export function App() {
         totalFrames={totalFrames}
         speed={speed}
         targetFPS={targetFPS}
+        recordTimeScale={recordTimeScale}
+        maxFrames={maxFrames}
+        deforumError={deforumErrorAt(currentFrame)}
       />
       
       {/* Controls Panel */}
@@ -255,18 +646,45 @@ export function App() {
         isRecording={isRecording}
         isPlaying={isPlaying}
         totalFrames={totalFrames}
+        takes={takes}
+        activeTakeId={activeTakeId}
         onStartRecording={handleStartRecording}
         onStopRecording={handleStopRecording}
+        onStartPunchIn={handleStartPunchIn}
         onStartPlayback={handleStartPlayback}
         onStopPlayback={handleStopPlayback}
         onResetCamera={handleResetCamera}
+        onSelectTake={handleSelectTake}
+        onRenameTake={handleRenameTake}
+        onDuplicateTake={handleDuplicateTake}
+        onDeleteTake={handleDeleteTake}
+        onSetTakeExportOptions={handleSetTakeExportOptions}
+        onSetRecordArming={handleSetRecordArming}
         onSetTargetFPS={handleSetTargetFPS}
+        onSetRecordTimeScale={handleSetRecordTimeScale}
         onSetMouseSensitivity={handleSetMouseSensitivity}
         onSetMoveSpeed={handleSetMoveSpeed}
         onSetCameraParams={handleSetCameraParams}
         onApplySmoothing={handleApplySmoothing}
         onRevertSmoothing={handleRevertSmoothing}
+        onTrim={handleTrim}
+        onSetShake={handleSetShake}
+        onApplyMotionLimits={handleApplyMotionLimits}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onGoToHistory={handleGoToHistory}
         onExportSchedules={handleExportSchedules}
+        onExportSettingsFile={handleExportSettingsFile}
+        onImportSettings={handleImportSettings}
+        onExportParseq={handleExportParseq}
+        onImportPath={handleImportPath}
+        onExportBlender={handleExportBlender}
+        onExportGLTF={handleExportGLTF}
+        onDownloadBlenderBakeScript={handleDownloadBlenderBakeScript}
+        onImportBlenderCamera={handleImportBlenderCamera}
+        hasDeforumPreview={deforumPreview !== null}
+        showDeforumPreview={showDeforumPreview}
+        onShowDeforumPreviewChange={setShowDeforumPreview}
       />
 
       {/* Welcome / Tutorial */}
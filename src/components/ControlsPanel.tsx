@@ -2,54 +2,134 @@
  * Main controls panel with all UI controls
  */
 
-import { useState, useRef, useEffect } from 'react';
-import { SmoothingOptions, ExportOptions, DeforumSchedules } from '../types';
+import { Fragment, useState, useRef, useEffect } from 'react';
+import { SmoothingOptions, MotionLimits, ShakeOptions, SmoothingMethod, SmoothingGroup, SmoothingBoundary, ExportOptions, ExportProfile, ProfileAxis, SessionSettings, DeforumSchedules, Deforum2DSchedules, ExportReport, TakeSummary, PunchInOptions, RecordArming, ChannelArrays } from '../types';
 import { ExportModal } from './ExportModal';
+import { formatFrameRanges } from '../logic/limiter';
+import { BUILT_IN_PROFILES, DEFAULT_EXPORT_PROFILE, loadCustomProfiles, saveCustomProfiles, copyProfile } from '../logic/profiles';
+
+const DEFAULT_SHAKE: ShakeOptions = {
+  enabled: false,
+  seed: 1,
+  frequency: 2,
+  translationAmplitude: 0.05,
+  rotationAmplitude: 0.5,
+  weights: { x: 1, y: 1, z: 0.5, pitch: 1, yaw: 1, roll: 0.5 }
+};
 
 interface ControlsPanelProps {
   isRecording: boolean;
   isPlaying: boolean;
   totalFrames: number;
+  takes: TakeSummary[];
+  activeTakeId: string | null;
   onStartRecording: () => void;
   onStopRecording: () => void;
+  onStartPunchIn: (options: PunchInOptions) => void;
   onStartPlayback: () => void;
   onStopPlayback: () => void;
   onResetCamera: () => void;
+  onSelectTake: (id: string) => void;
+  onRenameTake: (id: string, name: string) => void;
+  onDuplicateTake: (id: string) => void;
+  onDeleteTake: (id: string) => void;
+  onSetTakeExportOptions: (options: ExportOptions) => void;
+  onSetRecordArming: (arming: RecordArming) => void;
   onSetTargetFPS: (fps: number) => void;
+  onSetRecordTimeScale: (scale: number) => void;
   onSetMouseSensitivity: (sensitivity: number) => void;
   onSetMoveSpeed: (unitsPerSecond: number) => void;
   onSetCameraParams: (params: { fov?: number; near?: number; far?: number }) => void;
-  onApplySmoothing: (options: SmoothingOptions) => void;
-  onRevertSmoothing: () => void;
-  onExportSchedules: (options: ExportOptions) => Promise<{schedules: DeforumSchedules, json: string, pretty: string}>;
+  onApplySmoothing: (options: SmoothingOptions, live?: boolean) => void;
+  onRevertSmoothing: (live?: boolean) => void;
+  onTrim: (frameStart: number, frameEnd: number) => void;
+  onSetShake: (shake: ShakeOptions | null) => void;
+  onApplyMotionLimits: (limits: MotionLimits) => number[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoToHistory: (index: number) => void;
+  onExportSchedules: (options: ExportOptions) => Promise<{schedules: DeforumSchedules | Deforum2DSchedules, json: string, pretty: string, report: ExportReport | null}>;
+  onExportSettingsFile: (options: ExportOptions, settingsText: string, fileName: string) => void;
+  onImportSettings: (settingsText: string, options: ExportOptions) => SessionSettings;
+  onExportParseq: (options: ExportOptions, variant: 'delta' | 'absolute') => void;
+  onImportPath: (settingsText: string, options: ExportOptions, name: string) => void;
+  hasDeforumPreview: boolean;
+  showDeforumPreview: boolean;
+  onShowDeforumPreviewChange: (show: boolean) => void;
+  onExportBlender: () => void;
+  onExportGLTF: (format: 'gltf' | 'glb') => void;
+  onDownloadBlenderBakeScript: () => void;
+  onImportBlenderCamera: (text: string, name: string) => void;
 }
 
 export function ControlsPanel({
   isRecording,
   isPlaying,
   totalFrames,
+  takes,
+  activeTakeId,
   onStartRecording,
   onStopRecording,
+  onStartPunchIn,
   onStartPlayback,
   onStopPlayback,
   onResetCamera,
+  onSelectTake,
+  onRenameTake,
+  onDuplicateTake,
+  onDeleteTake,
+  onSetTakeExportOptions,
+  onSetRecordArming,
   onSetTargetFPS,
+  onSetRecordTimeScale,
   onSetMouseSensitivity,
   onSetMoveSpeed,
   onApplySmoothing,
   onRevertSmoothing,
-  onExportSchedules
+  onTrim,
+  onSetShake,
+  onApplyMotionLimits,
+  onUndo,
+  onRedo,
+  onGoToHistory,
+  onExportSchedules,
+  onExportSettingsFile,
+  onImportSettings,
+  onExportParseq,
+  onImportPath,
+  hasDeforumPreview,
+  showDeforumPreview,
+  onShowDeforumPreviewChange,
+  onExportBlender,
+  onExportGLTF,
+  onDownloadBlenderBakeScript,
+  onImportBlenderCamera
 }: ControlsPanelProps) {
   const [targetFPS, setTargetFPS] = useState(20);
+  const [recordTimeScale, setRecordTimeScale] = useState(1);
   const [speedSlider, setSpeedSlider] = useState(1.0);
   const [mouseSensitivity, setMouseSensitivity] = useState(0.0001);
   const [simpleSmoothing, setSimpleSmoothing] = useState(0);
-  const [smoothingOptions] = useState<SmoothingOptions>({
+  // Method and its parameters; window size and iterations come from the slider
+  const [smoothingOptions, setSmoothingOptions] = useState<SmoothingOptions>({
     method: 'average',
     windowSize: 5,
     iterations: 1,
-    nonDestructive: true
+    nonDestructive: true,
+    gaussianSigma: undefined,
+    polynomialOrder: 2,
+    minCutoff: 1.0,
+    beta: 0.05,
+    derivativeCutoff: 1.0,
+    groupStrengths: { translation: 1, pitchYaw: 1, roll: 1, fov: 1 },
+    boundary: 'shrink',
+    pinStartFrames: 0,
+    pinEndFrames: 0,
+    anchorFrames: [],
+    rotationSpace: 'quaternion'
   });
+  const [anchorText, setAnchorText] = useState('');
+  const [smoothingRange, setSmoothingRange] = useState({ enabled: false, frameStart: 0, frameEnd: 0, feather: 10 });
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
     frameStart: 0,
     frameEnd: Math.max(0, totalFrames - 1),
@@ -61,17 +141,61 @@ export function ControlsPanel({
     preferAngleOverLens: true,
     cadence: 4,
     masterScaleTranslate: 10,
-    masterScaleRotate: 1.5
+    masterScaleRotate: 1.5,
+    keyframeTolerance: 0,
+    profile: DEFAULT_EXPORT_PROFILE
   });
-  const [exportedSchedules, setExportedSchedules] = useState<DeforumSchedules | null>(null);
+  const [settingsFile, setSettingsFile] = useState<{ name: string; text: string } | null>(null);
+  const settingsInputRef = useRef<HTMLInputElement | null>(null);
+  const blenderInputRef = useRef<HTMLInputElement | null>(null);
+  const [sessionReport, setSessionReport] = useState<string | null>(null);
+  const [customProfiles, setCustomProfiles] = useState<ExportProfile[]>(() => loadCustomProfiles());
+  const [exportedSchedules, setExportedSchedules] = useState<DeforumSchedules | Deforum2DSchedules | null>(null);
+  const [exportReport, setExportReport] = useState<ExportReport | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   // Removed unused fov state
   const [appliedFlash, setAppliedFlash] = useState(false);
   const [revertedFlash, setRevertedFlash] = useState(false);
   const applyTimerRef = useRef<number | null>(null);
   const revertTimerRef = useRef<number | null>(null);
+  const [renamingTakeId, setRenamingTakeId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [punchIn, setPunchIn] = useState(0);
+  const [punchOut, setPunchOut] = useState(''); // Empty = replace to the end
+  const [crossfadeFrames, setCrossfadeFrames] = useState(5);
+  const [preRollFrames, setPreRollFrames] = useState(30);
+  const [motionLimits, setMotionLimits] = useState<MotionLimits>({
+    maxLinearVelocity: 0,
+    maxLinearAcceleration: 20,
+    maxLinearJerk: 0,
+    maxAngularVelocity: 0,
+    maxAngularAcceleration: 720,
+    maxAngularJerk: 0
+  });
+  const [limitReport, setLimitReport] = useState<string | null>(null);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [shake, setShake] = useState<ShakeOptions>(DEFAULT_SHAKE);
+  const [arming, setArming] = useState<RecordArming>({
+    translation_x: true,
+    translation_y: true,
+    translation_z: true,
+    rotation_3d_x: true,
+    rotation_3d_y: true,
+    rotation_3d_z: true,
+    fov: true
+  });
+  // Take and slider value the live smoothing was last synced to
+  const liveSmoothingRef = useRef<{ takeId: string | null; amount: number; params: string }>({ takeId: null, amount: 0, params: '' });
+  const activeTake = takes.find(take => take.id === activeTakeId) ?? null;
 
 
+  const handleShakeChange = (changes: Partial<ShakeOptions>) => {
+    const next = { ...shake, ...changes };
+    setShake(next);
+    onSetShake(next);
+  };
+
   const handleTargetFPSChange = (fps: number) => {
     setTargetFPS(fps);
     onSetTargetFPS(fps);
@@ -80,7 +204,115 @@ export function ControlsPanel({
   // Removed unused handler
 
   const handleExportOptionsChange = (key: keyof ExportOptions, value: any) => {
-    setExportOptions(prev => ({ ...prev, [key]: value }));
+    const next = { ...exportOptions, [key]: value };
+    setExportOptions(next);
+    onSetTakeExportOptions(next);
+  };
+
+  const exportProfile = exportOptions.profile ?? DEFAULT_EXPORT_PROFILE;
+
+  const handleSelectProfile = (id: string) => {
+    const profile = [...BUILT_IN_PROFILES, ...customProfiles].find(p => p.id === id);
+    if (profile) handleExportOptionsChange('profile', profile);
+  };
+
+  const handleCopyProfile = () => {
+    const copy = copyProfile(exportProfile, `${exportProfile.name} copy`);
+    const next = [...customProfiles, copy];
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+    handleExportOptionsChange('profile', copy);
+  };
+
+  const handleProfileChange = (changes: Partial<ExportProfile>) => {
+    if (exportProfile.builtIn) return;
+    const updated = { ...exportProfile, ...changes };
+    const next = customProfiles.map(p => (p.id === updated.id ? updated : p));
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+    handleExportOptionsChange('profile', updated);
+  };
+
+  const handleDeleteProfile = () => {
+    if (exportProfile.builtIn) return;
+    const next = customProfiles.filter(p => p.id !== exportProfile.id);
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+    handleExportOptionsChange('profile', DEFAULT_EXPORT_PROFILE);
+  };
+
+  const handleArmingChange = (changes: Partial<RecordArming>) => {
+    const next = { ...arming, ...changes };
+    setArming(next);
+    onSetRecordArming(next);
+  };
+
+  const startRename = (take: TakeSummary) => {
+    setRenamingTakeId(take.id);
+    setRenameValue(take.name);
+  };
+
+  const handleStartPunchIn = () => {
+    const parsedOut = punchOut.trim() === '' ? null : Number(punchOut);
+    onStartPunchIn({
+      punchIn: Math.max(0, Math.min(punchIn, totalFrames - 1)),
+      punchOut: parsedOut === null || Number.isNaN(parsedOut) ? null : parsedOut,
+      crossfadeFrames: Math.max(0, crossfadeFrames),
+      preRollFrames: Math.max(0, preRollFrames)
+    });
+  };
+
+  const commitRename = () => {
+    if (renamingTakeId) {
+      onRenameTake(renamingTakeId, renameValue);
+    }
+    setRenamingTakeId(null);
+  };
+
+  // Convert percentage to window size (0-100% = 1-50 window size, much stronger at 100%)
+  const buildSmoothingOptions = (amount: number): SmoothingOptions => {
+    const multiPass = smoothingOptions.method === 'average' || smoothingOptions.method === 'gaussian';
+    return {
+      ...smoothingOptions,
+      windowSize: Math.max(1, Math.round(1 + (amount / 100) * 49)),
+      iterations: multiPass ? Math.max(1, Math.round(1 + (amount / 100) * 9)) : 1,
+      nonDestructive: true,
+      range: smoothingRange.enabled
+        ? {
+            frameStart: Math.min(smoothingRange.frameStart, smoothingRange.frameEnd),
+            frameEnd: Math.max(smoothingRange.frameStart, smoothingRange.frameEnd),
+            feather: Math.max(0, smoothingRange.feather)
+          }
+        : undefined
+    };
+  };
+
+  const smoothingParamsKey = (options: SmoothingOptions) => JSON.stringify({
+    ...options,
+    windowSize: undefined,
+    iterations: undefined,
+    range: smoothingRange.enabled ? smoothingRange : undefined
+  });
+
+  const handleSmoothingParamChange = (changes: Partial<SmoothingOptions>) => {
+    setSmoothingOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleApplyMotionLimits = () => {
+    const clampedFrames = onApplyMotionLimits(motionLimits);
+    setLimitReport(clampedFrames.length === 0
+      ? 'No frames exceeded the limits'
+      : `Clamped ${clampedFrames.length} frames: ${formatFrameRanges(clampedFrames)}`);
+  };
+
+  const handleAnchorTextChange = (text: string) => {
+    setAnchorText(text);
+    const frames = text
+      .split(/[\s,]+/)
+      .filter(part => part !== '')
+      .map(Number)
+      .filter(frame => Number.isInteger(frame) && frame >= 0);
+    handleSmoothingParamChange({ anchorFrames: frames });
   };
 
   const handleApplySmoothing = (opts?: SmoothingOptions) => {
@@ -106,6 +338,7 @@ export function ControlsPanel({
     try {
       const result = await onExportSchedules(exportOptions);
       setExportedSchedules(result.schedules);
+      setExportReport(result.report);
       setShowExportModal(true);
     } catch (error) {
       console.error('Export failed:', error);
@@ -113,6 +346,100 @@ export function ControlsPanel({
     }
   };
 
+  const handleLoadSettingsFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    try {
+      JSON.parse(text);
+      setSettingsFile({ name: file.name, text });
+    } catch (error) {
+      console.error('Failed to read settings file:', error);
+      alert('That file is not a Deforum settings file (expected JSON).');
+    }
+  };
+
+  const handleExportSettingsFile = () => {
+    if (!settingsFile) return;
+    try {
+      onExportSettingsFile(exportOptions, settingsFile.text, settingsFile.name);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please check the console for details.');
+    }
+  };
+
+  const handleExportParseq = (variant: 'delta' | 'absolute') => {
+    try {
+      onExportParseq(exportOptions, variant);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please check the console for details.');
+    }
+  };
+
+  const handleImportPath = () => {
+    if (!settingsFile) return;
+    try {
+      onImportPath(settingsFile.text, exportOptions, settingsFile.name.replace(/\.(txt|json)$/i, ''));
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleExportBlender = () => {
+    try {
+      onExportBlender();
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please check the console for details.');
+    }
+  };
+
+  const handleExportGLTF = (format: 'gltf' | 'glb') => {
+    try {
+      onExportGLTF(format);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please check the console for details.');
+    }
+  };
+
+  const handleImportBlenderCamera = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImportBlenderCamera(await file.text(), file.name.replace(/\.json$/i, ''));
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleApplySettingsToSession = () => {
+    if (!settingsFile) return;
+    try {
+      const session = onImportSettings(settingsFile.text, exportOptions);
+      if (session.fps) setTargetFPS(session.fps);
+      if (session.height) {
+        // 2D pixel translation follows the render height
+        const next = { ...exportOptions, renderHeight: session.height };
+        setExportOptions(next);
+        onSetTakeExportOptions(next);
+      }
+      const applied = [
+        session.fps && `${session.fps} fps`,
+        session.width && session.height && `${session.width}×${session.height}`,
+        session.fov && `FOV ${session.fov}°`,
+        session.near && session.far && `near/far ${session.near}/${session.far}`,
+        session.maxFrames && `max ${session.maxFrames} frames`
+      ].filter(Boolean);
+      setSessionReport(applied.length > 0 ? `Session: ${applied.join(', ')}` : 'No session values found in settings');
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert('Import failed. Please check the console for details.');
+    }
+  };
+
   const handleCopyValue = async (value: string) => {
     try {
       await navigator.clipboard.writeText(value);
@@ -130,25 +457,56 @@ export function ControlsPanel({
         frameEnd: Math.max(0, totalFrames - 1)
       }));
     }
+    setTrimStart(0);
+    setTrimEnd(Math.max(0, totalFrames - 1));
+    setSmoothingRange(prev => ({ ...prev, frameStart: 0, frameEnd: Math.max(0, totalFrames - 1) }));
   }, [totalFrames]);
 
-  // Live smoothing: 0 = revert; >0 applies stronger average
+  // Switching takes restores that take's export options
+  useEffect(() => {
+    if (!activeTake) return;
+    const saved = activeTake.exportOptions;
+    if (saved) {
+      setExportOptions(saved);
+    } else {
+      setExportOptions(prev => ({
+        ...prev,
+        frameStart: 0,
+        frameEnd: Math.max(0, activeTake.totalFrames - 1)
+      }));
+    }
+    // Only react to the take changing, not to its summary being refreshed
+  }, [activeTakeId]);
+
+  // Switching takes shows that take's shake layer
+  useEffect(() => {
+    setShake(activeTake?.shake ?? DEFAULT_SHAKE);
+  }, [activeTakeId]);
+
+  // Live smoothing: 0 = revert; >0 applies the selected filter, stronger with the slider
   useEffect(() => {
+    if (liveSmoothingRef.current.takeId !== activeTakeId) {
+      // Switching takes restores that take's slider and filter instead of re-smoothing it
+      const saved = activeTake?.smoothingOptions ?? null;
+      const windowSize = saved?.windowSize ?? 1;
+      const amount = Math.max(0, Math.min(100, Math.round(((windowSize - 1) / 49) * 100)));
+      const params = saved ? { ...smoothingOptions, ...saved } : smoothingOptions;
+      liveSmoothingRef.current = { takeId: activeTakeId, amount, params: smoothingParamsKey(params) };
+      setSimpleSmoothing(amount);
+      if (saved) setSmoothingOptions(params);
+      return;
+    }
+    const params = smoothingParamsKey(smoothingOptions);
+    if (liveSmoothingRef.current.amount === simpleSmoothing && liveSmoothingRef.current.params === params) return;
+    liveSmoothingRef.current.amount = simpleSmoothing;
+    liveSmoothingRef.current.params = params;
     if (totalFrames <= 0) return;
     if (simpleSmoothing <= 0) {
-      onRevertSmoothing();
+      onRevertSmoothing(true);
       return;
     }
-    const windowSize = Math.max(1, Math.round(1 + (simpleSmoothing / 100) * 49));
-    const iterations = Math.max(1, Math.round(1 + (simpleSmoothing / 100) * 9));
-    const newOptions: SmoothingOptions = {
-      method: 'average',
-      windowSize,
-      iterations,
-      nonDestructive: true
-    };
-    onApplySmoothing(newOptions);
-  }, [simpleSmoothing, totalFrames, onApplySmoothing, onRevertSmoothing]);
+    onApplySmoothing(buildSmoothingOptions(simpleSmoothing), true);
+  }, [simpleSmoothing, smoothingOptions, smoothingRange, activeTakeId, activeTake, totalFrames, onApplySmoothing, onRevertSmoothing]);
 
   useEffect(() => {
     return () => {
@@ -263,6 +621,26 @@ export function ControlsPanel({
           />
         </div>
 
+        <div>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            Record Time Scale: {recordTimeScale.toFixed(2)}x
+          </label>
+          <input
+            type="range"
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={recordTimeScale}
+            disabled={isRecording}
+            onChange={(e) => {
+              const scale = Number(e.target.value);
+              setRecordTimeScale(scale);
+              onSetRecordTimeScale(scale);
+            }}
+            style={{ width: '100%', margin: '6px 0 0 0' }}
+          />
+        </div>
+
         <div>
           <label style={{ display: 'block', marginBottom: '4px' }}>
             Speed: {speedSlider.toFixed(1)}
@@ -307,13 +685,438 @@ export function ControlsPanel({
           />
         </div>
 
+        {/* Record arming: disarmed channels are played back from the active take */}
+        <div style={{ marginTop: '8px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            Armed channels
+          </label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px 8px' }}>
+            {([
+              ['translation_x', 'TX'],
+              ['translation_y', 'TY'],
+              ['translation_z', 'TZ'],
+              ['rotation_3d_x', 'RX'],
+              ['rotation_3d_y', 'RY'],
+              ['rotation_3d_z', 'RZ'],
+              ['fov', 'FOV']
+            ] as [keyof ChannelArrays, string][]).map(([channel, label]) => (
+              <label key={channel} style={{ display: 'flex', alignItems: 'center', gap: '2px' }}>
+                <input
+                  type="checkbox"
+                  checked={arming[channel]}
+                  disabled={isRecording}
+                  onChange={(e) => handleArmingChange({ [channel]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+            <button
+              style={{ ...buttonStyle, flex: 1 }}
+              disabled={isRecording}
+              onClick={() => handleArmingChange({
+                translation_x: true, translation_y: true, translation_z: true,
+                rotation_3d_x: false, rotation_3d_y: false, rotation_3d_z: false
+              })}
+            >
+              Position pass
+            </button>
+            <button
+              style={{ ...buttonStyle, flex: 1 }}
+              disabled={isRecording}
+              onClick={() => handleArmingChange({
+                translation_x: false, translation_y: false, translation_z: false,
+                rotation_3d_x: true, rotation_3d_y: true, rotation_3d_z: true
+              })}
+            >
+              Aim pass
+            </button>
+            <button
+              style={{ ...buttonStyle, flex: 1 }}
+              disabled={isRecording}
+              onClick={() => handleArmingChange({
+                translation_x: true, translation_y: true, translation_z: true,
+                rotation_3d_x: true, rotation_3d_y: true, rotation_3d_z: true, fov: true
+              })}
+            >
+              All
+            </button>
+          </div>
+        </div>
+
         {/* FOV control removed per request */}
       </div>
 
+      {/* Takes */}
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Takes</h3>
+
+        {takes.length === 0 && (
+          <div style={{ color: '#303030' }}>No takes yet — hit Record</div>
+        )}
+
+        {takes.map(take => {
+          const isActive = take.id === activeTakeId;
+          return (
+            <div
+              key={take.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                marginBottom: '4px',
+                padding: '4px 8px',
+                borderRadius: '999px',
+                backgroundColor: isActive ? '#ffffff' : 'transparent'
+              }}
+            >
+              {renamingTakeId === take.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingTakeId(null);
+                  }}
+                  style={{ flex: 1, minWidth: 0, fontFamily: 'monospace', fontSize: '12px' }}
+                />
+              ) : (
+                <span
+                  style={{
+                    flex: 1,
+                    cursor: isRecording ? 'default' : 'pointer',
+                    fontWeight: isActive ? 'bold' : 'normal',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap'
+                  }}
+                  onClick={() => onSelectTake(take.id)}
+                  onDoubleClick={() => startRename(take)}
+                  title="Click to select, double-click to rename"
+                >
+                  {take.name} ({take.totalFrames})
+                </span>
+              )}
+              <button
+                style={{ ...buttonStyle, padding: '2px 8px', margin: 0 }}
+                onClick={() => startRename(take)}
+                disabled={isRecording}
+                title="Rename"
+              >
+                ✎
+              </button>
+              <button
+                style={{ ...buttonStyle, padding: '2px 8px', margin: 0 }}
+                onClick={() => onDuplicateTake(take.id)}
+                disabled={isRecording}
+                title="Duplicate"
+              >
+                ⧉
+              </button>
+              <button
+                style={{ ...buttonStyle, padding: '2px 8px', margin: 0 }}
+                onClick={() => onDeleteTake(take.id)}
+                disabled={isRecording}
+                title="Delete"
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+
+        <div style={{ marginTop: '8px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px' }}>
+          <label>
+            In
+            <input
+              type="number"
+              min={0}
+              max={Math.max(0, totalFrames - 1)}
+              value={punchIn}
+              onChange={(e) => setPunchIn(Number(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </label>
+          <label>
+            Out (blank = end)
+            <input
+              type="number"
+              min={0}
+              value={punchOut}
+              onChange={(e) => setPunchOut(e.target.value)}
+              style={{ width: '100%' }}
+            />
+          </label>
+          <label>
+            Crossfade
+            <input
+              type="number"
+              min={0}
+              value={crossfadeFrames}
+              onChange={(e) => setCrossfadeFrames(Number(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </label>
+          <label>
+            Pre-roll
+            <input
+              type="number"
+              min={0}
+              value={preRollFrames}
+              onChange={(e) => setPreRollFrames(Number(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </label>
+        </div>
+
+        <button
+          style={{ ...buttonStyle, width: '100%', marginTop: '8px' }}
+          onClick={handleStartPunchIn}
+          onMouseOver={(e) => { e.currentTarget.style.backgroundColor = '#000000'; e.currentTarget.style.color = '#ffffff'; }}
+          onMouseOut={(e) => { e.currentTarget.style.backgroundColor = '#ffffff'; e.currentTarget.style.color = '#000000'; }}
+          disabled={isRecording || isPlaying || totalFrames === 0}
+        >
+          Punch In
+        </button>
+      </div>
+
       {/* Post Controls */}
       <div style={sectionStyle}>
         <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Post</h3>
-        
+
+        <div style={{ marginBottom: '8px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            Filter
+          </label>
+          <select
+            value={smoothingOptions.method}
+            onChange={(e) => handleSmoothingParamChange({ method: e.target.value as SmoothingMethod })}
+            style={{ width: '100%', fontFamily: 'monospace', fontSize: '12px' }}
+          >
+            <option value="average">Moving average</option>
+            <option value="gaussian">Gaussian</option>
+            <option value="savitzkyGolay">Savitzky–Golay</option>
+            <option value="oneEuro">One-Euro</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '8px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            Rotation
+          </label>
+          <select
+            value={smoothingOptions.rotationSpace ?? 'quaternion'}
+            onChange={(e) => handleSmoothingParamChange({ rotationSpace: e.target.value as 'quaternion' | 'euler' })}
+            style={{ width: '100%', fontFamily: 'monospace', fontSize: '12px' }}
+          >
+            <option value="quaternion">Quaternion (whole orientation)</option>
+            <option value="euler">Euler (per axis)</option>
+          </select>
+        </div>
+
+        {smoothingOptions.method === 'gaussian' && (
+          <div>
+            <label style={{ display: 'block', marginBottom: '4px' }}>
+              Sigma: {smoothingOptions.gaussianSigma === undefined ? 'auto' : `${smoothingOptions.gaussianSigma.toFixed(1)} frames`}
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={20}
+              step={0.5}
+              value={smoothingOptions.gaussianSigma ?? 0}
+              onChange={(e) => {
+                const sigma = Number(e.target.value);
+                handleSmoothingParamChange({ gaussianSigma: sigma > 0 ? sigma : undefined });
+              }}
+              style={{ width: '100%', margin: '4px 0' }}
+            />
+          </div>
+        )}
+
+        {smoothingOptions.method === 'savitzkyGolay' && (
+          <div>
+            <label style={{ display: 'block', marginBottom: '4px' }}>
+              Polynomial Order: {smoothingOptions.polynomialOrder ?? 2}
+            </label>
+            <input
+              type="range"
+              min={1}
+              max={6}
+              step={1}
+              value={smoothingOptions.polynomialOrder ?? 2}
+              onChange={(e) => handleSmoothingParamChange({ polynomialOrder: Number(e.target.value) })}
+              style={{ width: '100%', margin: '4px 0' }}
+            />
+          </div>
+        )}
+
+        {smoothingOptions.method === 'oneEuro' && (
+          <>
+            <div>
+              <label style={{ display: 'block', marginBottom: '4px' }}>
+                Min Cutoff: {(smoothingOptions.minCutoff ?? 1).toFixed(2)} Hz
+              </label>
+              <input
+                type="range"
+                min={0.05}
+                max={10}
+                step={0.05}
+                value={smoothingOptions.minCutoff ?? 1}
+                onChange={(e) => handleSmoothingParamChange({ minCutoff: Number(e.target.value) })}
+                style={{ width: '100%', margin: '4px 0' }}
+              />
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '4px' }}>
+                Beta: {(smoothingOptions.beta ?? 0.05).toFixed(3)}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.005}
+                value={smoothingOptions.beta ?? 0.05}
+                onChange={(e) => handleSmoothingParamChange({ beta: Number(e.target.value) })}
+                style={{ width: '100%', margin: '4px 0' }}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Optional frame range, feathered into the untouched frames */}
+        <div style={{ marginBottom: '8px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' }}>
+            <input
+              type="checkbox"
+              checked={smoothingRange.enabled}
+              onChange={(e) => setSmoothingRange(prev => ({ ...prev, enabled: e.target.checked }))}
+            />
+            Only frames
+          </label>
+          {smoothingRange.enabled && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '4px' }}>
+              <label>
+                Start
+                <input
+                  type="number"
+                  min={0}
+                  max={Math.max(0, totalFrames - 1)}
+                  value={smoothingRange.frameStart}
+                  onChange={(e) => setSmoothingRange(prev => ({ ...prev, frameStart: Number(e.target.value) }))}
+                  style={{ width: '100%' }}
+                />
+              </label>
+              <label>
+                End
+                <input
+                  type="number"
+                  min={0}
+                  max={Math.max(0, totalFrames - 1)}
+                  value={smoothingRange.frameEnd}
+                  onChange={(e) => setSmoothingRange(prev => ({ ...prev, frameEnd: Number(e.target.value) }))}
+                  style={{ width: '100%' }}
+                />
+              </label>
+              <label>
+                Feather
+                <input
+                  type="number"
+                  min={0}
+                  value={smoothingRange.feather}
+                  onChange={(e) => setSmoothingRange(prev => ({ ...prev, feather: Number(e.target.value) }))}
+                  style={{ width: '100%' }}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        {/* Endpoint handling: keep start/end/anchor poses exact */}
+        <div style={{ marginBottom: '8px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            Edges
+          </label>
+          <select
+            value={smoothingOptions.boundary ?? 'shrink'}
+            onChange={(e) => handleSmoothingParamChange({ boundary: e.target.value as SmoothingBoundary })}
+            style={{ width: '100%', fontFamily: 'monospace', fontSize: '12px', marginBottom: '4px' }}
+          >
+            <option value="shrink">Shrink window</option>
+            <option value="reflect">Reflect padding</option>
+            <option value="pointReflect">Point-reflect padding (keeps slope)</option>
+          </select>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px' }}>
+            <label>
+              Pin start
+              <input
+                type="number"
+                min={0}
+                value={smoothingOptions.pinStartFrames ?? 0}
+                onChange={(e) => handleSmoothingParamChange({ pinStartFrames: Math.max(0, Number(e.target.value)) })}
+                style={{ width: '100%' }}
+              />
+            </label>
+            <label>
+              Pin end
+              <input
+                type="number"
+                min={0}
+                value={smoothingOptions.pinEndFrames ?? 0}
+                onChange={(e) => handleSmoothingParamChange({ pinEndFrames: Math.max(0, Number(e.target.value)) })}
+                style={{ width: '100%' }}
+              />
+            </label>
+          </div>
+          <label style={{ display: 'block', marginTop: '4px' }}>
+            Anchor frames
+            <input
+              type="text"
+              placeholder="e.g. 40, 85"
+              value={anchorText}
+              onChange={(e) => handleAnchorTextChange(e.target.value)}
+              style={{ width: '100%', fontFamily: 'monospace', fontSize: '12px' }}
+            />
+          </label>
+        </div>
+
+        {/* Per-group strength relative to the main slider */}
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0 8px' }}>
+          {([
+            ['translation', 'Translation'],
+            ['pitchYaw', 'Pitch/Yaw'],
+            ['roll', 'Roll'],
+            ['fov', 'FOV']
+          ] as [SmoothingGroup, string][]).map(([group, label]) => {
+            const strength = smoothingOptions.groupStrengths?.[group] ?? 1;
+            return (
+              <div key={group}>
+                <label style={{ display: 'block' }}>
+                  {label}: {strength.toFixed(2)}x
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  value={strength}
+                  onChange={(e) => handleSmoothingParamChange({
+                    groupStrengths: {
+                      translation: 1, pitchYaw: 1, roll: 1, fov: 1,
+                      ...smoothingOptions.groupStrengths,
+                      [group]: Number(e.target.value)
+                    }
+                  })}
+                  style={{ width: '100%', margin: '4px 0' }}
+                />
+              </div>
+            );
+          })}
+        </div>
+
         <div>
           <label style={{ display: 'block', marginBottom: '4px' }}>
             Smoothing: {simpleSmoothing}%
@@ -368,20 +1171,7 @@ export function ControlsPanel({
               flex: 1,
               backgroundColor: appliedFlash ? pastelGreen : buttonStyle.backgroundColor
             }}
-            onClick={() => {
-              // Convert percentage to window size (0-100% = 1-50 window size, much stronger at 100%)
-              const windowSize = Math.max(1, Math.round(1 + (simpleSmoothing / 100) * 49));
-              const iterations = Math.max(1, Math.round(1 + (simpleSmoothing / 100) * 9));
-              
-              const newOptions: SmoothingOptions = {
-                method: 'average',
-                windowSize,
-                iterations,
-                nonDestructive: true
-              };
-              
-              handleApplySmoothing(newOptions);
-            }}
+            onClick={() => handleApplySmoothing(buildSmoothingOptions(simpleSmoothing))}
             onMouseOver={(e) => { if (!appliedFlash) { e.currentTarget.style.backgroundColor = '#000000'; e.currentTarget.style.color = '#ffffff'; } }}
             onMouseOut={(e) => { if (!appliedFlash) { e.currentTarget.style.backgroundColor = '#ffffff'; e.currentTarget.style.color = '#000000'; } }}
             disabled={false}
@@ -399,15 +1189,320 @@ export function ControlsPanel({
             onMouseOver={(e) => { if (!revertedFlash) { e.currentTarget.style.backgroundColor = '#000000'; e.currentTarget.style.color = '#ffffff'; } }}
             onMouseOut={(e) => { if (!revertedFlash) { e.currentTarget.style.backgroundColor = '#ffffff'; e.currentTarget.style.color = '#000000'; } }}
             disabled={false}
+            title="Remove smoothing applied since the recording or the last motion limit pass"
           >
             {revertedFlash ? '✅ Reverted' : 'Revert'}
           </button>
         </div>
+
+        {/* Motion limiter: caps per-frame deltas so Deforum doesn't tear */}
+        <div style={{ marginTop: '8px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            Motion limits (0 = off)
+          </label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '4px' }}>
+            {([
+              ['maxLinearVelocity', 'Vel u/s'],
+              ['maxLinearAcceleration', 'Acc u/s²'],
+              ['maxLinearJerk', 'Jerk u/s³'],
+              ['maxAngularVelocity', 'Vel °/s'],
+              ['maxAngularAcceleration', 'Acc °/s²'],
+              ['maxAngularJerk', 'Jerk °/s³']
+            ] as [keyof MotionLimits, string][]).map(([key, label]) => (
+              <label key={key}>
+                {label}
+                <input
+                  type="number"
+                  min={0}
+                  value={motionLimits[key]}
+                  onChange={(e) => setMotionLimits(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value)) }))}
+                  style={{ width: '100%' }}
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            style={{ ...buttonStyle, width: '100%', marginTop: '4px' }}
+            onClick={handleApplyMotionLimits}
+            disabled={isRecording || totalFrames === 0}
+          >
+            Limit
+          </button>
+          {limitReport && (
+            <div style={{ marginTop: '4px', color: '#303030', wordBreak: 'break-word' }}>
+              {limitReport}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginTop: '8px' }}>
+          <label>Trim</label>
+          <input
+            type="number"
+            min={0}
+            max={Math.max(0, totalFrames - 1)}
+            value={trimStart}
+            onChange={(e) => setTrimStart(Number(e.target.value))}
+            style={{ width: '60px' }}
+          />
+          <input
+            type="number"
+            min={0}
+            max={Math.max(0, totalFrames - 1)}
+            value={trimEnd}
+            onChange={(e) => setTrimEnd(Number(e.target.value))}
+            style={{ width: '60px' }}
+          />
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => onTrim(trimStart, trimEnd)}
+            disabled={isRecording || totalFrames === 0}
+          >
+            Trim
+          </button>
+        </div>
+      </div>
+
+      {/* Handheld shake layer, kept separate from the recorded path */}
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Shake</h3>
+
+        <label style={{ display: 'block', marginBottom: '4px' }}>
+          <input
+            type="checkbox"
+            checked={shake.enabled}
+            onChange={(e) => handleShakeChange({ enabled: e.target.checked })}
+            disabled={!activeTake}
+          />
+          {' '}Enable (preview with Play)
+        </label>
+
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '4px' }}>
+          <label>Seed</label>
+          <input
+            type="number"
+            value={shake.seed}
+            onChange={(e) => handleShakeChange({ seed: Math.round(Number(e.target.value)) })}
+            style={{ width: '60px' }}
+          />
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => handleShakeChange({ seed: Math.floor(Math.random() * 10000) })}
+          >
+            Random
+          </button>
+        </div>
+
+        {([
+          ['frequency', 'Frequency', 'Hz', 0.1, 10, 0.1],
+          ['translationAmplitude', 'Position amplitude', 'u', 0, 2, 0.01],
+          ['rotationAmplitude', 'Rotation amplitude', '°', 0, 10, 0.1]
+        ] as [keyof ShakeOptions, string, string, number, number, number][]).map(([key, label, unit, min, max, step]) => (
+          <div key={key}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>
+              {label}: {shake[key] as number}{unit}
+            </label>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={shake[key] as number}
+              onChange={(e) => handleShakeChange({ [key]: Number(e.target.value) })}
+              style={{ width: '100%', margin: '4px 0' }}
+            />
+          </div>
+        ))}
+
+        <label style={{ display: 'block', marginBottom: '4px' }}>Axis weights</label>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '4px' }}>
+          {(['x', 'y', 'z', 'pitch', 'yaw', 'roll'] as (keyof ShakeOptions['weights'])[]).map(axis => (
+            <label key={axis}>
+              {axis} {shake.weights[axis].toFixed(2)}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={shake.weights[axis]}
+                onChange={(e) => handleShakeChange({ weights: { ...shake.weights, [axis]: Number(e.target.value) } })}
+                style={{ width: '100%' }}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Edit History */}
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>History</h3>
+
+        <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={onUndo}
+            disabled={isRecording || !activeTake || activeTake.historyIndex <= 0}
+            title="Ctrl+Z"
+          >
+            Undo
+          </button>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={onRedo}
+            disabled={isRecording || !activeTake || activeTake.historyIndex >= activeTake.history.length - 1}
+            title="Ctrl+Shift+Z"
+          >
+            Redo
+          </button>
+        </div>
+
+        {activeTake?.history.map((label, index) => (
+          <div
+            key={index}
+            onClick={() => { if (!isRecording) onGoToHistory(index); }}
+            style={{
+              padding: '2px 8px',
+              borderRadius: '999px',
+              cursor: isRecording ? 'default' : 'pointer',
+              backgroundColor: index === activeTake.historyIndex ? '#ffffff' : 'transparent',
+              fontWeight: index === activeTake.historyIndex ? 'bold' : 'normal',
+              color: index > activeTake.historyIndex ? '#808080' : '#000000'
+            }}
+          >
+            {index + 1}. {label}
+          </div>
+        ))}
       </div>
 
       {/* Export Controls (cadence removed) */}
       <div style={sectionStyle}>
         <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Export</h3>
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '8px' }}>
+          <label>Mode</label>
+          <select
+            value={exportOptions.animationMode ?? '3D'}
+            onChange={(e) => handleExportOptionsChange('animationMode', e.target.value)}
+          >
+            <option value="3D">3D</option>
+            <option value="2D">2D</option>
+          </select>
+          {exportOptions.animationMode === '2D' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={exportOptions.renderHeight ?? 832}
+                onChange={(e) => handleExportOptionsChange('renderHeight', Math.max(1, Number(e.target.value)))}
+                style={{ width: '50px' }}
+                title="Render height (px); the FOV is vertical, so the width doesn't change pixel motion"
+              />
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={exportOptions.focusDistance ?? 10}
+                onChange={(e) => handleExportOptionsChange('focusDistance', Math.max(0.1, Number(e.target.value)))}
+                style={{ width: '40px' }}
+                title="Focus distance (scene units)"
+              />
+            </>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '8px' }}>
+          <label>Profile</label>
+          <select
+            value={exportProfile.id}
+            onChange={(e) => handleSelectProfile(e.target.value)}
+            style={{ flex: 1 }}
+          >
+            {[...BUILT_IN_PROFILES, ...customProfiles].map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <button style={buttonStyle} onClick={handleCopyProfile} title="Copy to an editable custom profile">⧉</button>
+          {!exportProfile.builtIn && (
+            <button style={buttonStyle} onClick={handleDeleteProfile} title="Delete custom profile">×</button>
+          )}
+        </div>
+        {!exportProfile.builtIn && (
+          <div style={{ marginBottom: '8px' }}>
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '4px' }}>
+              <input
+                type="text"
+                value={exportProfile.name}
+                onChange={(e) => handleProfileChange({ name: e.target.value })}
+                style={{ flex: 1 }}
+              />
+              <select
+                value={exportProfile.mode}
+                onChange={(e) => handleProfileChange({ mode: e.target.value as ExportProfile['mode'] })}
+              >
+                <option value="delta">Delta</option>
+                <option value="absolute">Absolute</option>
+              </select>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr 1fr 1fr', gap: '4px', alignItems: 'center' }}>
+              <span />
+              <span>X</span>
+              <span>Y</span>
+              <span>Z</span>
+              {([
+                ['Move from', 'translationAxes', 'translationSigns'],
+                ['Turn from', 'rotationAxes', 'rotationSigns']
+              ] as const).map(([label, axesKey, signsKey]) => (
+                <Fragment key={axesKey}>
+                  <span>{label}</span>
+                  {[0, 1, 2].map(i => (
+                    <select
+                      key={i}
+                      value={`${exportProfile[signsKey][i] < 0 ? '-' : '+'}${exportProfile[axesKey][i]}`}
+                      onChange={(e) => {
+                        const axes = [...exportProfile[axesKey]] as ExportProfile['translationAxes'];
+                        const signs = [...exportProfile[signsKey]] as ExportProfile['translationSigns'];
+                        signs[i] = e.target.value.startsWith('-') ? -1 : 1;
+                        axes[i] = e.target.value.slice(1) as ProfileAxis;
+                        handleProfileChange({ [axesKey]: axes, [signsKey]: signs });
+                      }}
+                    >
+                      {['+x', '-x', '+y', '-y', '+z', '-z'].map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ))}
+                </Fragment>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginTop: '4px' }}>
+              <label>Units/unit</label>
+              <input
+                type="number"
+                step={0.01}
+                value={exportProfile.translationScale}
+                onChange={(e) => handleProfileChange({ translationScale: Number(e.target.value) })}
+                style={{ width: '60px' }}
+              />
+              <label>Units/°</label>
+              <input
+                type="number"
+                step={0.01}
+                value={exportProfile.rotationScale}
+                onChange={(e) => handleProfileChange({ rotationScale: Number(e.target.value) })}
+                style={{ width: '60px' }}
+              />
+            </div>
+          </div>
+        )}
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '8px' }}>
+          <label style={{ flex: 1 }}>Keyframe tolerance (0 = every frame)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={exportOptions.keyframeTolerance ?? 0}
+            onChange={(e) => handleExportOptionsChange('keyframeTolerance', Math.max(0, Number(e.target.value)))}
+            style={{ width: '60px' }}
+          />
+        </div>
         <button
           style={{ ...buttonStyle, width: '100%', marginBottom: '8px' }}
           onClick={handleExportSchedules}
@@ -417,12 +1512,144 @@ export function ControlsPanel({
         >
           Export Schedules
         </button>
+        {hasDeforumPreview && (
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            <input
+              type="checkbox"
+              checked={showDeforumPreview}
+              onChange={(e) => onShowDeforumPreviewChange(e.target.checked)}
+            />
+            {' '}Show Deforum path (red) against the recording
+          </label>
+        )}
+        <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => handleExportParseq('delta')}
+            disabled={totalFrames === 0}
+            title="Per-frame deltas, for parseq_use_deltas: true"
+          >
+            Parseq (Deltas)
+          </button>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => handleExportParseq('absolute')}
+            disabled={totalFrames === 0}
+            title="Running totals, for parseq_use_deltas: false"
+          >
+            Parseq (Absolute)
+          </button>
+        </div>
+        <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => handleExportGLTF('gltf')}
+            disabled={totalFrames === 0}
+            title="Animated camera for Unity, Unreal, Cinema 4D, TouchDesigner…"
+          >
+            glTF Camera
+          </button>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => handleExportGLTF('glb')}
+            disabled={totalFrames === 0}
+            title="Same camera as a single binary file"
+          >
+            GLB Camera
+          </button>
+        </div>
+        <input
+          ref={settingsInputRef}
+          type="file"
+          accept=".txt,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => { handleLoadSettingsFile(e.target.files?.[0]); e.target.value = ''; }}
+        />
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => settingsInputRef.current?.click()}
+            title={settingsFile ? settingsFile.name : 'Load a Deforum settings file'}
+          >
+            {settingsFile ? `📄 ${settingsFile.name}` : 'Load Settings…'}
+          </button>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={handleExportSettingsFile}
+            disabled={!settingsFile || totalFrames === 0}
+          >
+            Download Merged
+          </button>
+        </div>
+        <button
+          style={{ ...buttonStyle, width: '100%', marginTop: '4px' }}
+          onClick={handleApplySettingsToSession}
+          disabled={!settingsFile || isRecording || isPlaying}
+        >
+          Apply Settings to Session
+        </button>
+        <button
+          style={{ ...buttonStyle, width: '100%', marginTop: '4px' }}
+          onClick={handleImportPath}
+          disabled={!settingsFile || isRecording}
+          title="Rebuild the camera path from the file's schedules as a new take"
+        >
+          Import Path as Take
+        </button>
+        {sessionReport && (
+          <div style={{ marginTop: '4px', color: '#303030', wordBreak: 'break-word' }}>
+            {sessionReport}
+          </div>
+        )}
+      </div>
+
+      {/* Camera exchange with Blender */}
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Blender</h3>
+        <button
+          style={{ ...buttonStyle, width: '100%', marginBottom: '4px' }}
+          onClick={handleExportBlender}
+          disabled={totalFrames === 0}
+          title="Python script that creates a keyframed camera (Text Editor > Run Script)"
+        >
+          Download Camera Script
+        </button>
+        <input
+          ref={blenderInputRef}
+          type="file"
+          accept=".json"
+          style={{ display: 'none' }}
+          onChange={(e) => { handleImportBlenderCamera(e.target.files?.[0]); e.target.value = ''; }}
+        />
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={onDownloadBlenderBakeScript}
+            title="Run in Blender to write pilot_camera.json from the scene camera"
+          >
+            Bake Script
+          </button>
+          <button
+            style={{ ...buttonStyle, flex: 1 }}
+            onClick={() => blenderInputRef.current?.click()}
+            disabled={isRecording}
+            title="Load pilot_camera.json as a new take"
+          >
+            Import Camera…
+          </button>
+        </div>
       </div>
 
       {/* Export Modal */}
       <ExportModal
         isOpen={showExportModal}
         schedules={exportedSchedules}
+        report={exportReport}
+        extraSchedules={exportedSchedules && 'fov_schedule' in exportedSchedules ? {
+          fov: exportedSchedules.fov_schedule,
+          near: exportedSchedules.near_schedule,
+          far: exportedSchedules.far_schedule
+        } : undefined}
         onClose={() => setShowExportModal(false)}
         onCopyValue={handleCopyValue}
       />
@@ -3,22 +3,30 @@
  */
 
 import { useState } from 'react';
-import { DeforumSchedules } from '../types';
+import { DeforumSchedules, Deforum2DSchedules, ExportReport } from '../types';
 
 interface ExportModalProps {
   isOpen: boolean;
-  schedules: DeforumSchedules | null;
+  schedules: DeforumSchedules | Deforum2DSchedules | null;
+  report?: ExportReport | null;
   onClose: () => void;
   onCopyValue: (value: string) => void;
   extraSchedules?: { fov: string; near: string; far: string };
 }
 
-export function ExportModal({ isOpen, schedules, onClose, onCopyValue, extraSchedules }: ExportModalProps) {
+export function ExportModal({ isOpen, schedules, report, onClose, onCopyValue, extraSchedules }: ExportModalProps) {
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   
   if (!isOpen || !schedules) return null;
 
-  const scheduleEntries = [
+  const scheduleEntries = 'angle' in schedules ? [
+    { key: 'Angle', value: schedules.angle },
+    { key: 'Zoom', value: schedules.zoom },
+    { key: 'Translation X', value: schedules.translation_x },
+    { key: 'Translation Y', value: schedules.translation_y },
+    { key: 'Transform Center X', value: schedules.transform_center_x },
+    { key: 'Transform Center Y', value: schedules.transform_center_y }
+  ] : [
     { key: 'Translation X', value: schedules.translation_x },
     { key: 'Translation Y', value: schedules.translation_y },
     { key: 'Translation Z', value: schedules.translation_z },
@@ -99,6 +107,28 @@ export function ExportModal({ isOpen, schedules, onClose, onCopyValue, extraSche
           </button>
         </div>
 
+        {report && (
+          <div style={{ marginBottom: '12px', fontSize: '14px' }}>
+            {report.keyframesKept < report.keyframesTotal && (
+              <div>
+                Kept {report.keyframesKept} of {report.keyframesTotal} keyframes, {'angle' in schedules
+                  ? `max deviation ${report.maxDeviation.toFixed(4)}`
+                  : `max pose deviation ${report.roundTripPositionError.toFixed(4)} units, ${report.roundTripRotationError.toFixed(3)}°`}
+              </div>
+            )}
+            {!('angle' in schedules) && report.keyframesKept === report.keyframesTotal && (
+              <div>
+                Round trip: {report.roundTripPositionError.toFixed(4)} units, {report.roundTripRotationError.toFixed(3)}° max drift from the recorded path
+              </div>
+            )}
+            {!('angle' in schedules) && (
+              <div style={{ color: report.deforumPositionError > 0.01 || report.deforumRotationError > 0.1 ? '#ff3434' : undefined }}>
+                Deforum preview: {report.deforumPositionError.toFixed(4)} units, {report.deforumRotationError.toFixed(3)}° worst frame, flying every frame's schedule value
+              </div>
+            )}
+          </div>
+        )}
+
         <div style={{ marginBottom: '20px' }}>
           <button
             onClick={handleCopyAll}
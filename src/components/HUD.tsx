@@ -12,6 +12,9 @@ interface HUDProps {
   totalFrames: number;
   speed: number;
   targetFPS: number;
+  recordTimeScale: number;
+  maxFrames: number | null;
+  deforumError?: { position: number; rotation: number } | null; // Previewed Deforum drift at this frame
 }
 
 export function HUD({
@@ -21,7 +24,10 @@ export function HUD({
   currentFrame,
   totalFrames,
   speed,
-  targetFPS
+  targetFPS,
+  recordTimeScale,
+  maxFrames,
+  deforumError
 }: HUDProps) {
   const getStatusText = () => {
     if (isPlaying) {
@@ -100,6 +106,24 @@ export function HUD({
       <div style={{ marginBottom: '4px', fontSize: '12px', color: '#303030' }}>
         FPS: {targetFPS}
       </div>
+
+      {maxFrames !== null && (
+        <div style={{ marginBottom: '4px', fontSize: '12px', color: '#303030' }}>
+          Record limit: {maxFrames} frames
+        </div>
+      )}
+
+      {deforumError && (
+        <div style={{ marginBottom: '4px', fontSize: '12px', color: '#ff3434' }}>
+          Deforum drift: {deforumError.position.toFixed(3)} units, {deforumError.rotation.toFixed(2)}°
+        </div>
+      )}
+
+      {recordTimeScale !== 1 && (
+        <div style={{ marginBottom: '4px', fontSize: '12px', color: isRecording ? '#ff3434' : '#303030' }}>
+          Record time scale: {recordTimeScale}x
+        </div>
+      )}
       
       <div style={{ fontSize: '12px', color: '#303030', marginTop: '8px' }}>
         Controls:
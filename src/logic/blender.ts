@@ -0,0 +1,260 @@
+/**
+ * Camera exchange with Blender: a Python script that rebuilds a take as a
+ * keyframed camera, and import of a camera baked out of Blender as JSON
+ */
+
+import { ChannelArrays } from '../types';
+import { unwrapAngles } from './smoothing';
+import * as THREE from 'three';
+
+/** Blender camera sensor height the exported lens is measured against, mm */
+const SENSOR_HEIGHT = 24;
+
+// Three.js is Y-up, Blender Z-up: a quarter turn about X maps one onto the
+// other. Both cameras look down their local -Z with +Y up, so camera
+// rotations only need the same change of basis.
+const TO_BLENDER = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI / 2);
+const FROM_BLENDER = TO_BLENDER.clone().invert();
+
+/**
+ * Camera baked out of Blender by BLENDER_CAMERA_EXPORT_SCRIPT
+ */
+interface BlenderCameraFile {
+  fps: number;
+  frames: {
+    location: [number, number, number];
+    quaternion: [number, number, number, number]; // w, x, y, z
+    angle_y: number; // Vertical FOV, radians
+  }[];
+}
+
+/**
+ * Python script that creates a camera keyframed on every frame of the take:
+ * location, XYZ Euler rotation and lens (vertical sensor fit), with linear
+ * interpolation. Take frame 0 lands on Blender frame 1.
+ */
+export function generateBlenderScript(
+  channelArrays: ChannelArrays,
+  fps: number,
+  clipPlanes: { near: number; far: number },
+  name: string
+): string {
+  const frameCount = channelArrays.translation_x.length;
+  const rotations: number[][] = [[], [], []];
+  const rows: string[] = [];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const orientation = TO_BLENDER.clone().multiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(
+      channelArrays.rotation_3d_x[frame],
+      channelArrays.rotation_3d_y[frame],
+      channelArrays.rotation_3d_z[frame],
+      'YXZ'
+    )));
+    // Blender's XYZ mode applies X first, which is Three.js order ZYX
+    const euler = new THREE.Euler().setFromQuaternion(orientation, 'ZYX');
+    rotations[0].push(euler.x);
+    rotations[1].push(euler.y);
+    rotations[2].push(euler.z);
+  }
+  // Continuous angles so Blender's curves never spin through ±π
+  const [rx, ry, rz] = rotations.map(unwrapAngles);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const location = new THREE.Vector3(
+      channelArrays.translation_x[frame],
+      channelArrays.translation_y[frame],
+      channelArrays.translation_z[frame]
+    ).applyQuaternion(TO_BLENDER);
+    const lens = SENSOR_HEIGHT / 2 / Math.tan((channelArrays.fov[frame] * Math.PI) / 360);
+    const values = [location.x, location.y, location.z, rx[frame], ry[frame], rz[frame], lens];
+    rows.push(`    (${values.map(pythonNumber).join(', ')}),`);
+  }
+
+  return `# Camera path from Deforum Web Pilot
+# Run from Blender's Text Editor (Text > Run Script)
+
+import bpy
+
+NAME = ${JSON.stringify(name)}
+FPS = ${pythonNumber(fps)}
+CLIP_START = ${pythonNumber(clipPlanes.near)}
+CLIP_END = ${pythonNumber(clipPlanes.far)}
+
+# location x, y, z, rotation x, y, z (radians, XYZ), lens (mm)
+FRAMES = [
+${rows.join('\n')}
+]
+
+scene = bpy.context.scene
+scene.render.fps = round(FPS)
+scene.render.fps_base = round(FPS) / FPS
+scene.frame_start = 1
+scene.frame_end = len(FRAMES)
+
+camera_data = bpy.data.cameras.new(NAME)
+camera_data.sensor_fit = 'VERTICAL'
+camera_data.sensor_height = ${SENSOR_HEIGHT}
+camera_data.clip_start = CLIP_START
+camera_data.clip_end = CLIP_END
+
+camera = bpy.data.objects.new(NAME, camera_data)
+camera.rotation_mode = 'XYZ'
+scene.collection.objects.link(camera)
+scene.camera = camera
+
+# Every frame is keyed, so interpolate linearly between them
+edit = bpy.context.preferences.edit
+previous_interpolation = edit.keyframe_new_interpolation_type
+edit.keyframe_new_interpolation_type = 'LINEAR'
+try:
+    for index, (x, y, z, rx, ry, rz, lens) in enumerate(FRAMES):
+        frame = scene.frame_start + index
+        camera.location = (x, y, z)
+        camera.rotation_euler = (rx, ry, rz)
+        camera_data.lens = lens
+        camera.keyframe_insert("location", frame=frame)
+        camera.keyframe_insert("rotation_euler", frame=frame)
+        camera_data.keyframe_insert("lens", frame=frame)
+finally:
+    edit.keyframe_new_interpolation_type = previous_interpolation
+`;
+}
+
+/**
+ * Python script that bakes the scene camera (constraints and parenting
+ * included) to pilot_camera.json next to the saved .blend, for import
+ * with parseBlenderCamera
+ */
+export const BLENDER_CAMERA_EXPORT_SCRIPT = `# Bake the scene camera for Deforum Web Pilot
+# Save the .blend first, then run from Blender's Text Editor (Text > Run Script).
+# Writes pilot_camera.json next to the .blend.
+
+import bpy
+import json
+import math
+
+scene = bpy.context.scene
+camera = scene.camera
+if camera is None or camera.type != 'CAMERA':
+    raise RuntimeError("The scene has no camera")
+if not bpy.data.filepath:
+    raise RuntimeError("Save the .blend file first")
+
+render = scene.render
+aspect = (render.resolution_x * render.pixel_aspect_x) / (render.resolution_y * render.pixel_aspect_y)
+
+
+def vertical_fov(data):
+    fit = data.sensor_fit
+    if fit == 'AUTO':
+        fit = 'HORIZONTAL' if aspect >= 1 else 'VERTICAL'
+        sensor = data.sensor_width
+    else:
+        sensor = data.sensor_width if fit == 'HORIZONTAL' else data.sensor_height
+    half = math.atan(sensor / 2 / data.lens)
+    if fit == 'HORIZONTAL':
+        return 2 * math.atan(math.tan(half) / aspect)
+    return 2 * half
+
+
+frames = []
+current = scene.frame_current
+for frame in range(scene.frame_start, scene.frame_end + 1):
+    scene.frame_set(frame)
+    matrix = camera.matrix_world
+    location = matrix.to_translation()
+    rotation = matrix.to_quaternion()
+    frames.append({
+        "location": [location.x, location.y, location.z],
+        "quaternion": [rotation.w, rotation.x, rotation.y, rotation.z],
+        "angle_y": vertical_fov(camera.data),
+    })
+scene.frame_set(current)
+
+path = bpy.path.abspath("//pilot_camera.json")
+with open(path, "w") as file:
+    json.dump({"fps": render.fps / render.fps_base, "frames": frames}, file)
+print("Wrote", len(frames), "frames to", path)
+`;
+
+/**
+ * Read a camera baked by BLENDER_CAMERA_EXPORT_SCRIPT into channel arrays
+ * in the pilot's space, resampled from Blender's frame rate to fps
+ * (positions and FOV linearly, orientation by slerp)
+ */
+export function parseBlenderCamera(text: string, fps: number): ChannelArrays {
+  let parsed: BlenderCameraFile;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Blender camera file is not valid JSON');
+  }
+  if (!parsed || !Array.isArray(parsed.frames) || parsed.frames.length === 0) {
+    throw new Error('Blender camera file has no frames');
+  }
+
+  const positions: THREE.Vector3[] = [];
+  const orientations: THREE.Quaternion[] = [];
+  const fovs: number[] = [];
+  parsed.frames.forEach((frame, index) => {
+    const values = [...(frame?.location ?? []), ...(frame?.quaternion ?? []), frame?.angle_y];
+    if (values.length !== 8 || !values.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      throw new Error(`Blender camera frame ${index} is malformed`);
+    }
+
+    const [w, x, y, z] = frame.quaternion;
+    positions.push(new THREE.Vector3(...frame.location).applyQuaternion(FROM_BLENDER));
+    orientations.push(FROM_BLENDER.clone().multiply(new THREE.Quaternion(x, y, z, w).normalize()));
+    fovs.push((frame.angle_y * 180) / Math.PI);
+  });
+
+  const sourceFps = typeof parsed.fps === 'number' && parsed.fps > 0 ? parsed.fps : fps;
+  const duration = (positions.length - 1) / sourceFps;
+  const frameCount = Math.floor(duration * fps + 1e-6) + 1;
+
+  const arrays: ChannelArrays = {
+    translation_x: [],
+    translation_y: [],
+    translation_z: [],
+    rotation_3d_x: [],
+    rotation_3d_y: [],
+    rotation_3d_z: [],
+    fov: []
+  };
+  const position = new THREE.Vector3();
+  const orientation = new THREE.Quaternion();
+  const euler = new THREE.Euler();
+
+  const last = positions.length - 1;
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Blender frames either side of this pilot frame
+    const source = Math.min((frame * sourceFps) / fps, last);
+    const index = Math.min(Math.floor(source), Math.max(0, last - 1));
+    const next = Math.min(index + 1, last);
+    const alpha = source - index;
+
+    position.lerpVectors(positions[index], positions[next], alpha);
+    orientation.slerpQuaternions(orientations[index], orientations[next], alpha);
+    euler.setFromQuaternion(orientation, 'YXZ');
+
+    arrays.translation_x.push(position.x);
+    arrays.translation_y.push(position.y);
+    arrays.translation_z.push(position.z);
+    arrays.rotation_3d_x.push(euler.x);
+    arrays.rotation_3d_y.push(euler.y);
+    arrays.rotation_3d_z.push(euler.z);
+    arrays.fov.push(fovs[index] + (fovs[next] - fovs[index]) * alpha);
+  }
+
+  arrays.rotation_3d_x = unwrapAngles(arrays.rotation_3d_x);
+  arrays.rotation_3d_y = unwrapAngles(arrays.rotation_3d_y);
+  arrays.rotation_3d_z = unwrapAngles(arrays.rotation_3d_z);
+  return arrays;
+}
+
+/**
+ * Python literal for a number, rounded to keep scripts readable
+ */
+function pythonNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
@@ -2,10 +2,22 @@
  * Export logic for generating Deforum schedule strings
  */
 
-import { ChannelArrays, ExportOptions, DeforumSchedules } from '../types';
+import { ChannelArrays, ExportOptions, ExportProfile, DeforumSchedules, Deforum2DSchedules, ExportReport, DeforumPreview } from '../types';
+import { CHANNEL_KEYS } from './recorder';
+import { DEFAULT_EXPORT_PROFILE } from './profiles';
+import { replaceTopLevelValues } from './settings';
+import { evaluateSchedule, shiftSchedule } from './schedule';
+import { unwrapAngles } from './smoothing';
+import { Keyframe, reduceKeyframes, maxInterpolationError, valueAtFrame } from './keyframes';
 import * as THREE from 'three';
 
+/** Times the per-channel tolerance is halved before keeping every key */
+const MAX_REDUCTION_ATTEMPTS = 12;
+
 export class Exporter {
+  private lastReport: ExportReport | null = null;
+  private lastPreview: DeforumPreview | null = null;
+
   /**
    * Build a schedule string from frame-to-value mapping
    */
@@ -30,29 +42,128 @@ export class Exporter {
    */
   generateSchedules(
     channelArrays: ChannelArrays,
-    options: ExportOptions
+    options: ExportOptions,
+    clipPlanes: { near: number; far: number }
   ): DeforumSchedules {
-    const {
-      frameStart,
-      frameEnd,
-      frameStep,
-      axisScaleX,
-      axisScaleY,
-      axisScaleZ,
-      includeEmptyFrames,
-      cadence,
-      masterScaleTranslate,
-      masterScaleRotate
-    } = options;
-    // Map slider values v in [-2, 2] to scale factors: 0=>1x, v>0=>v, v<0=>1/(-v)
-    const mapScale = (v: number | undefined): number => {
-      const x = typeof v === 'number' ? v : 0;
-      if (x === 0) return 1;
-      if (x > 0) return x;
-      return 1 / (-x);
+    const { keyedFrames, channelMaps, profile, translationFactors, rotationFactors } = this.motionChannels(channelArrays, options);
+    const [translationXMap, translationYMap, translationZMap, rotationXMap, rotationYMap, rotationZMap] = channelMaps;
+    const factors = { translate: translationFactors, rotate: rotationFactors };
+    const tolerance = options.keyframeTolerance ?? 0;
+    const fullMaps = channelMaps.map(map => new Map(map));
+
+    // Deltas accumulate along the path, so a per-channel tolerance does not
+    // bound the pose error: tighten it until the rebuilt path stays within
+    // tolerance (scene units and degrees), down to keeping every key
+    let channelTolerance = tolerance;
+    for (let attempt = 1; ; attempt++) {
+      const report: ExportReport = {
+        keyframesKept: 0,
+        keyframesTotal: 0,
+        maxDeviation: 0,
+        roundTripPositionError: 0,
+        roundTripRotationError: 0,
+        deforumPositionError: 0,
+        deforumRotationError: 0
+      };
+      channelMaps.forEach((map, i) => {
+        map.clear();
+        fullMaps[i].forEach((value, frame) => map.set(frame, value));
+        this.reduceChannel(map, channelTolerance, report);
+      });
+
+      const roundTrip = this.measureRoundTrip(channelArrays, keyedFrames, channelMaps, profile, factors);
+      report.roundTripPositionError = roundTrip.position;
+      report.roundTripRotationError = roundTrip.rotation;
+      this.lastReport = report;
+
+      if (channelTolerance === 0 || (roundTrip.position <= tolerance && roundTrip.rotation <= tolerance)) break;
+      channelTolerance = attempt < MAX_REDUCTION_ATTEMPTS ? channelTolerance / 2 : 0;
+    }
+
+    const lens = this.generateLensSchedules(channelArrays, options, clipPlanes);
+
+    // Build schedule strings
+    const schedules: DeforumSchedules = {
+      translation_x: this.buildScheduleString(translationXMap),
+      translation_y: this.buildScheduleString(translationYMap),
+      translation_z: this.buildScheduleString(translationZMap),
+      rotation_3d_x: this.buildScheduleString(rotationXMap),
+      rotation_3d_y: this.buildScheduleString(rotationYMap),
+      rotation_3d_z: this.buildScheduleString(rotationZMap),
+      fov_schedule: lens.fov,
+      near_schedule: lens.near,
+      far_schedule: lens.far
     };
-    const translateFactor = mapScale(masterScaleTranslate);
-    const rotateFactor = mapScale(masterScaleRotate);
+
+    this.lastPreview = this.previewDeforumPath(channelArrays, schedules, options);
+    if (this.lastPreview) {
+      this.lastReport.deforumPositionError = this.lastPreview.positionErrors.reduce((max, error) => Math.max(max, error), 0);
+      this.lastReport.deforumRotationError = this.lastPreview.rotationErrors.reduce((max, error) => Math.max(max, error), 0);
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Fly exported schedules the way Deforum does: from the first keyed pose,
+   * every frame applies its own schedule value (interpolated between keys,
+   * held past the last one). Compared frame by frame with the recorded
+   * path, this shows what cadence, frame step and scaling cost, which the
+   * keyed round trip in the report cannot.
+   */
+  previewDeforumPath(channelArrays: ChannelArrays, schedules: DeforumSchedules, options: ExportOptions): DeforumPreview | null {
+    const totalFrames = channelArrays.translation_x.length;
+    const keyedFrames = this.keyedFrames(options, totalFrames);
+    if (keyedFrames.length === 0) return null;
+
+    const first = keyedFrames[0];
+    const last = Math.min(options.frameEnd, totalFrames - 1);
+    // Frames before the first key hold its value, which is no motion
+    const flown = this.pathFromSchedules(schedules, last + 1, options, {
+      position: new THREE.Vector3(
+        channelArrays.translation_x[first],
+        channelArrays.translation_y[first],
+        channelArrays.translation_z[first]
+      ),
+      rotation: new THREE.Euler().setFromQuaternion(this.orientationAt(channelArrays, first), 'YXZ'),
+      fov: channelArrays.fov[first]
+    });
+
+    const range = (arrays: ChannelArrays): ChannelArrays => {
+      const result = { ...arrays };
+      for (const channel of CHANNEL_KEYS) {
+        result[channel] = arrays[channel].slice(first, last + 1);
+      }
+      return result;
+    };
+    const recorded = range(channelArrays);
+    const deforum = range(flown);
+
+    const positionErrors: number[] = [];
+    const rotationErrors: number[] = [];
+    for (let i = 0; i < recorded.translation_x.length; i++) {
+      const recordedPosition = new THREE.Vector3(recorded.translation_x[i], recorded.translation_y[i], recorded.translation_z[i]);
+      const flownPosition = new THREE.Vector3(deforum.translation_x[i], deforum.translation_y[i], deforum.translation_z[i]);
+      positionErrors.push(recordedPosition.distanceTo(flownPosition));
+      rotationErrors.push(this.radiansToDegrees(this.orientationAt(recorded, i).angleTo(this.orientationAt(deforum, i))));
+    }
+
+    return { frameStart: first, recorded, deforum, positionErrors, rotationErrors };
+  }
+
+  /**
+   * Motion channel values in schedule units at the keyed frames, with the
+   * profile's axis order, signs and scaling applied
+   */
+  private motionChannels(channelArrays: ChannelArrays, options: ExportOptions): {
+    keyedFrames: number[];
+    channelMaps: Map<number, number>[]; // translation x/y/z, rotation x/y/z
+    profile: ExportProfile;
+    translationFactors: number[];
+    rotationFactors: number[];
+  } {
+    const { frameStart, frameEnd, frameStep, includeEmptyFrames, cadence } = options;
+    const { profile, translationFactors, rotationFactors } = this.channelFactors(options);
 
     const totalFrames = channelArrays.translation_x.length;
     const actualFrameEnd = Math.min(frameEnd, totalFrames - 1);
@@ -64,79 +175,38 @@ export class Exporter {
     const rotationXMap = new Map<number, number>();
     const rotationYMap = new Map<number, number>();
     const rotationZMap = new Map<number, number>();
+    const keyedFrames = this.keyedFrames(options, totalFrames);
 
-    // Process frames according to options
-    // Honor cadence by only exporting every Nth frame when cadence > 1
-    const startFrameForCadence = cadence > 1
-      ? Math.ceil(frameStart / cadence) * cadence
-      : frameStart;
+    // Delta mode keys each frame against the previous keyed pose (idle frames are zeros);
+    // absolute mode keys every frame against the first one
+    const translationMaps = [translationXMap, translationYMap, translationZMap];
+    const rotationMaps = [rotationXMap, rotationYMap, rotationZMap];
+    let referenceFrame = -1;
 
-    // Export per-frame deltas in camera-local space so idle frames are zeros
-    let initializedLocal = false;
-    let prevKeyFrame = startFrameForCadence;
+    for (const frame of keyedFrames) {
+      if (referenceFrame === -1) referenceFrame = frame;
 
-    for (let frame = startFrameForCadence; frame <= actualFrameEnd; frame += frameStep) {
-      if (frame >= totalFrames) break;
-      if (cadence > 1 && frame % cadence !== 0) continue;
+      // Translation in the reference camera's local frame
+      const localDelta = this.localDelta(channelArrays, referenceFrame, frame);
 
-      if (!initializedLocal) {
-        // First keyed frame emits zero delta
-        translationXMap.set(frame, 0);
-        translationYMap.set(frame, 0);
-        translationZMap.set(frame, 0);
-        initializedLocal = true;
-        prevKeyFrame = frame;
-      } else {
-        // World delta between current frame and previous keyed frame
-        const worldDelta = new THREE.Vector3(
-          channelArrays.translation_x[frame] - channelArrays.translation_x[prevKeyFrame],
-          channelArrays.translation_y[frame] - channelArrays.translation_y[prevKeyFrame],
-          channelArrays.translation_z[frame] - channelArrays.translation_z[prevKeyFrame]
-        );
-
-        // Transform world delta into previous camera's local frame using 'YXZ' Euler
-        const prevEuler = new THREE.Euler(
-          channelArrays.rotation_3d_x[prevKeyFrame],
-          channelArrays.rotation_3d_y[prevKeyFrame],
-          channelArrays.rotation_3d_z[prevKeyFrame],
-          'YXZ'
-        );
-        const invRot = new THREE.Matrix4().makeRotationFromEuler(prevEuler).invert();
-        const localDelta = worldDelta.clone().applyMatrix4(invRot);
-
-        // Per-frame deltas (idle -> zeros)
-        translationXMap.set(frame, translateFactor * (localDelta.x * axisScaleX));      // Left/Right
-        translationYMap.set(frame, translateFactor * (-localDelta.y * axisScaleY));     // Up/Down (invert Y)
-        translationZMap.set(frame, translateFactor * (-localDelta.z * axisScaleZ));     // Forward/Back (invert Z)
-      }
+      // Relative rotation in the reference camera's frame, so combined
+      // pitch/yaw and roll come out the way Deforum applies them
+      const relative = this.relativeRotation(channelArrays, referenceFrame, frame);
 
-      // Convert rotations from radians to degrees and apply scaling to match reference
-      // Three.js: X=pitch(mouseY), Y=yaw(mouseX), Z=roll(0)
-      // Deforum: X=pitch, Y=yaw, Z=roll
-      // Based on user feedback: trying direct mapping with inversions
-      // Per-frame rotation deltas (degrees), so idle -> zeros
-      if (frame === startFrameForCadence) {
-        rotationXMap.set(frame, 0);
-        rotationYMap.set(frame, 0);
-        rotationZMap.set(frame, 0);
-      } else {
-        const drx = channelArrays.rotation_3d_x[frame] - channelArrays.rotation_3d_x[prevKeyFrame];
-        const dry = channelArrays.rotation_3d_y[frame] - channelArrays.rotation_3d_y[prevKeyFrame];
-        const drz = channelArrays.rotation_3d_z[frame] - channelArrays.rotation_3d_z[prevKeyFrame];
-        rotationXMap.set(frame, rotateFactor * (-this.radiansToDegrees(drx) * 0.1));
-        rotationYMap.set(frame, rotateFactor * (-this.radiansToDegrees(dry) * 0.1));
-        rotationZMap.set(frame, rotateFactor * (this.radiansToDegrees(drz) * 0.1));
+      for (let i = 0; i < 3; i++) {
+        translationMaps[i].set(frame, translationFactors[i] * localDelta[profile.translationAxes[i]]);
+        rotationMaps[i].set(frame, rotationFactors[i] * this.radiansToDegrees(relative[profile.rotationAxes[i]]));
       }
 
-      // Now advance the previous-keyed frame pointer after all deltas used it
-      if (initializedLocal) {
-        prevKeyFrame = frame;
+      if (profile.mode === 'delta') {
+        referenceFrame = frame;
       }
     }
 
     // Handle empty frames if requested
-    // Only backfill missing frames when cadence == 1; otherwise it injects zeros between keyed frames
-    if (includeEmptyFrames && cadence <= 1) {
+    // Only backfill missing frames when cadence == 1; otherwise it injects zeros between keyed frames.
+    // Zero means "no motion" only for deltas, so absolute schedules are never backfilled
+    if (includeEmptyFrames && cadence <= 1 && profile.mode === 'delta') {
       this.addEmptyFrames(translationXMap, frameStart, actualFrameEnd, frameStep);
       this.addEmptyFrames(translationYMap, frameStart, actualFrameEnd, frameStep);
       this.addEmptyFrames(translationZMap, frameStart, actualFrameEnd, frameStep);
@@ -145,29 +215,520 @@ export class Exporter {
       this.addEmptyFrames(rotationZMap, frameStart, actualFrameEnd, frameStep);
     }
 
-    // Build schedule strings
     return {
+      keyedFrames,
+      channelMaps: [translationXMap, translationYMap, translationZMap, rotationXMap, rotationYMap, rotationZMap],
+      profile,
+      translationFactors,
+      rotationFactors
+    };
+  }
+
+  /**
+   * Schedule units per scene unit (translation) and per radian-as-degree
+   * (rotation) for each Deforum axis: profile signs and scales, master
+   * scales and per-axis scales combined
+   */
+  private channelFactors(options: ExportOptions): {
+    profile: ExportProfile;
+    translationFactors: number[];
+    rotationFactors: number[];
+  } {
+    const profile = options.profile ?? DEFAULT_EXPORT_PROFILE;
+    const translateFactor = this.mapScale(options.masterScaleTranslate);
+    const rotateFactor = this.mapScale(options.masterScaleRotate);
+    const axisScales = [options.axisScaleX, options.axisScaleY, options.axisScaleZ];
+    return {
+      profile,
+      translationFactors: axisScales.map((scale, i) =>
+        translateFactor * profile.translationSigns[i] * profile.translationScale * scale),
+      rotationFactors: [0, 1, 2].map(i =>
+        rotateFactor * profile.rotationSigns[i] * profile.rotationScale)
+    };
+  }
+
+  /**
+   * Rebuild a world-space path from Deforum schedule strings, the inverse
+   * of generateSchedules: each frame's motion values are mapped back through
+   * the profile and chained onto the previous pose (or, for absolute
+   * profiles, placed relative to the start pose). Schedules are evaluated
+   * per frame the way Deforum does, expressions with t included.
+   */
+  pathFromSchedules(
+    schedules: Pick<DeforumSchedules, 'translation_x' | 'translation_y' | 'translation_z' | 'rotation_3d_x' | 'rotation_3d_y' | 'rotation_3d_z'> & { fov_schedule?: string },
+    frameCount: number,
+    options: ExportOptions,
+    start: { position: THREE.Vector3; rotation: THREE.Euler; fov: number }
+  ): ChannelArrays {
+    const { profile, translationFactors, rotationFactors } = this.channelFactors(options);
+    const channels = [
+      schedules.translation_x,
+      schedules.translation_y,
+      schedules.translation_z,
+      schedules.rotation_3d_x,
+      schedules.rotation_3d_y,
+      schedules.rotation_3d_z
+    ].map(schedule => evaluateSchedule(schedule, frameCount));
+    const fov = schedules.fov_schedule
+      ? evaluateSchedule(schedules.fov_schedule, frameCount)
+      : new Array<number>(frameCount).fill(start.fov);
+
+    const startPose = { position: start.position.clone(), orientation: new THREE.Quaternion().setFromEuler(start.rotation) };
+    const pose = { position: startPose.position.clone(), orientation: startPose.orientation.clone() };
+    const arrays: ChannelArrays = {
+      translation_x: [],
+      translation_y: [],
+      translation_z: [],
+      rotation_3d_x: [],
+      rotation_3d_y: [],
+      rotation_3d_z: [],
+      fov
+    };
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      // Frame 0 is the start pose; motion is applied from frame 1 on
+      if (frame > 0 || profile.mode === 'absolute') {
+        this.stepPose(pose, startPose, channels.map(values => values[frame]), profile, {
+          translate: translationFactors,
+          rotate: rotationFactors
+        });
+      }
+      const euler = new THREE.Euler().setFromQuaternion(pose.orientation, 'YXZ');
+      arrays.translation_x.push(pose.position.x);
+      arrays.translation_y.push(pose.position.y);
+      arrays.translation_z.push(pose.position.z);
+      arrays.rotation_3d_x.push(euler.x);
+      arrays.rotation_3d_y.push(euler.y);
+      arrays.rotation_3d_z.push(euler.z);
+    }
+
+    // Keep angles continuous across ±π for smoothing and playback
+    arrays.rotation_3d_x = unwrapAngles(arrays.rotation_3d_x);
+    arrays.rotation_3d_y = unwrapAngles(arrays.rotation_3d_y);
+    arrays.rotation_3d_z = unwrapAngles(arrays.rotation_3d_z);
+    return arrays;
+  }
+
+  /**
+   * Undo the profile's axis order, signs and scaling for one set of six
+   * motion values and move the pose by them. Absolute profiles place the
+   * pose relative to start instead of chaining.
+   */
+  private stepPose(
+    pose: { position: THREE.Vector3; orientation: THREE.Quaternion },
+    start: { position: THREE.Vector3; orientation: THREE.Quaternion },
+    values: number[],
+    profile: ExportProfile,
+    factors: { translate: number[]; rotate: number[] }
+  ): void {
+    const unscale = (value: number, factor: number) => factor === 0 ? 0 : value / factor;
+    const localDelta = new THREE.Vector3();
+    const angles = new THREE.Euler(0, 0, 0, 'XYZ');
+    for (let i = 0; i < 3; i++) {
+      localDelta[profile.translationAxes[i]] = unscale(values[i], factors.translate[i]);
+      angles[profile.rotationAxes[i]] = unscale(values[3 + i], factors.rotate[i]) * Math.PI / 180;
+    }
+
+    if (profile.mode === 'absolute') {
+      pose.position.copy(start.position);
+      pose.orientation.copy(start.orientation);
+    }
+    pose.position.add(localDelta.applyQuaternion(pose.orientation));
+    pose.orientation.multiply(new THREE.Quaternion().setFromEuler(angles));
+  }
+
+  /**
+   * Convert the flight into Deforum 2D schedules. Motion is measured
+   * against a plane focusDistance ahead of the camera: moving toward it
+   * and narrowing the FOV become zoom, roll becomes angle, and sideways
+   * motion plus pan/tilt become pixel translation at the render size.
+   * Geometry uses scene units and real angles; scales apply to the result.
+   */
+  generate2DSchedules(channelArrays: ChannelArrays, options: ExportOptions): Deforum2DSchedules {
+    const keyedFrames = this.keyedFrames(options, channelArrays.translation_x.length);
+    const { translate, rotate } = this.imageFactors(options);
+    const renderHeight = options.renderHeight ?? 832;
+    const distance = Math.max(1e-3, options.focusDistance ?? 10);
+
+    const angleMap = new Map<number, number>();
+    const zoomMap = new Map<number, number>();
+    const translationXMap = new Map<number, number>();
+    const translationYMap = new Map<number, number>();
+    let previous = -1;
+
+    for (const frame of keyedFrames) {
+      if (previous === -1) {
+        angleMap.set(frame, 0);
+        zoomMap.set(frame, 1);
+        translationXMap.set(frame, 0);
+        translationYMap.set(frame, 0);
+        previous = frame;
+        continue;
+      }
+
+      const localDelta = this.localDelta(channelArrays, previous, frame);
+      const relative = this.relativeRotation(channelArrays, previous, frame);
+
+      // Focal length in pixels for the previous frame's vertical FOV
+      const halfFov = (channelArrays.fov[previous] * Math.PI) / 360;
+      const focalPixels = renderHeight / 2 / Math.tan(halfFov);
+
+      // Image content moves against the camera: right/up camera motion shifts
+      // pixels left/down (image y points down); yaw left/pitch up shift them right/down
+      const shiftX = -localDelta.x / distance * translate[0] + Math.tan(relative.y) * rotate[1];
+      const shiftY = localDelta.y / distance * translate[1] + Math.tan(relative.x) * rotate[0];
+      zoomMap.set(frame, this.zoomBetween(channelArrays, previous, frame, options));
+      angleMap.set(frame, -this.radiansToDegrees(relative.z) * rotate[2]);
+      translationXMap.set(frame, focalPixels * shiftX);
+      translationYMap.set(frame, focalPixels * shiftY);
+      previous = frame;
+    }
+
+    if (options.includeEmptyFrames && options.cadence <= 1) {
+      const end = Math.min(options.frameEnd, channelArrays.translation_x.length - 1);
+      this.addEmptyFrames(angleMap, options.frameStart, end, options.frameStep);
+      this.addEmptyFrames(translationXMap, options.frameStart, end, options.frameStep);
+      this.addEmptyFrames(translationYMap, options.frameStart, end, options.frameStep);
+      this.addEmptyFrames(zoomMap, options.frameStart, end, options.frameStep, 1);
+    }
+
+    this.lastReport = {
+      keyframesKept: 0,
+      keyframesTotal: 0,
+      maxDeviation: 0,
+      roundTripPositionError: 0,
+      roundTripRotationError: 0,
+      deforumPositionError: 0,
+      deforumRotationError: 0
+    };
+    this.lastPreview = null;
+    for (const map of [angleMap, zoomMap, translationXMap, translationYMap]) {
+      this.reduceChannel(map, options.keyframeTolerance ?? 0, this.lastReport);
+    }
+
+    const firstFrame = keyedFrames[0] ?? 0;
+    return {
+      angle: this.buildScheduleString(angleMap),
+      zoom: this.buildScheduleString(zoomMap),
       translation_x: this.buildScheduleString(translationXMap),
       translation_y: this.buildScheduleString(translationYMap),
-      translation_z: this.buildScheduleString(translationZMap),
-      rotation_3d_x: this.buildScheduleString(rotationXMap),
-      rotation_3d_y: this.buildScheduleString(rotationYMap),
-      rotation_3d_z: this.buildScheduleString(rotationZMap)
+      transform_center_x: this.buildScheduleString(new Map([[firstFrame, 0.5]])),
+      transform_center_y: this.buildScheduleString(new Map([[firstFrame, 0.5]]))
     };
   }
 
   /**
-   * Add empty frames (0 values) for missing frame numbers
+   * Image scale between two frames as Deforum's zoom: moving toward the
+   * plane focusDistance ahead (its log scaled like Z translation), times
+   * the change in lens FOV
+   */
+  private zoomBetween(channelArrays: ChannelArrays, fromFrame: number, toFrame: number, options: ExportOptions): number {
+    const distance = Math.max(1e-3, options.focusDistance ?? 10);
+    const localDelta = this.localDelta(channelArrays, fromFrame, toFrame);
+
+    // Camera looks down -Z; flying through the plane stops just short of it
+    const remaining = Math.max(distance + localDelta.z, distance * 1e-3);
+    const dollyZoom = Math.pow(distance / remaining, this.imageFactors(options).translate[2]);
+    const lensZoom = Math.tan((channelArrays.fov[fromFrame] * Math.PI) / 360) /
+      Math.tan((channelArrays.fov[toFrame] * Math.PI) / 360);
+    return dollyZoom * lensZoom;
+  }
+
+  /**
+   * Camera translation between two frames in the first frame's local axes,
+   * in scene units
+   */
+  private localDelta(channelArrays: ChannelArrays, fromFrame: number, toFrame: number): THREE.Vector3 {
+    return new THREE.Vector3(
+      channelArrays.translation_x[toFrame] - channelArrays.translation_x[fromFrame],
+      channelArrays.translation_y[toFrame] - channelArrays.translation_y[fromFrame],
+      channelArrays.translation_z[toFrame] - channelArrays.translation_z[fromFrame]
+    ).applyQuaternion(this.orientationAt(channelArrays, fromFrame).invert());
+  }
+
+  /**
+   * channelFactors relative to the A1111 profile, for 2D and zoom values
+   * that are already in pixels, degrees and image scale: 1 per axis unless
+   * the master scales, axis scales or a custom profile change it
+   */
+  private imageFactors(options: ExportOptions): { translate: number[]; rotate: number[] } {
+    const { translationFactors, rotationFactors } = this.channelFactors(options);
+    const base = DEFAULT_EXPORT_PROFILE;
+    return {
+      translate: translationFactors.map((factor, i) => factor / (base.translationSigns[i] * base.translationScale)),
+      rotate: rotationFactors.map((factor, i) => factor / (base.rotationSigns[i] * base.rotationScale))
+    };
+  }
+
+  /**
+   * Parseq-style document with one rendered frame per take frame. The delta
+   * variant writes <field>_delta values (for parseq_use_deltas: true), the
+   * absolute variant the running totals (for parseq_use_deltas: false).
+   * Frames are renumbered from 0 because Deforum indexes them by render frame.
+   */
+  generateParseqManifest(
+    channelArrays: ChannelArrays,
+    options: ExportOptions,
+    variant: 'delta' | 'absolute',
+    fps: number
+  ): string {
+    // Every frame, never reduced, always as per-frame motion; totals are summed below
+    const perFrame: ExportOptions = {
+      ...options,
+      frameStep: 1,
+      cadence: 1,
+      includeEmptyFrames: true,
+      keyframeTolerance: 0,
+      profile: { ...(options.profile ?? DEFAULT_EXPORT_PROFILE), mode: 'delta' }
+    };
+    const { keyedFrames, channelMaps } = this.motionChannels(channelArrays, perFrame);
+    const fields = ['translation_x', 'translation_y', 'translation_z', 'rotation_3d_x', 'rotation_3d_y', 'rotation_3d_z'];
+
+    const totals = fields.map(() => 0);
+    let zoomTotal = 1;
+    const renderedFrames = keyedFrames.map((frame, index) => {
+      const previous = keyedFrames[Math.max(0, index - 1)];
+      const zoom = index === 0 ? 1 : this.zoomBetween(channelArrays, previous, frame, options);
+      zoomTotal *= zoom;
+
+      const record: Record<string, number> = { frame: index };
+      fields.forEach((field, i) => {
+        const delta = channelMaps[i].get(frame) ?? 0;
+        totals[i] += delta;
+        if (variant === 'delta') record[`${field}_delta`] = delta;
+        else record[field] = totals[i];
+      });
+      record.zoom = variant === 'delta' ? zoom : zoomTotal;
+      record.fov = channelArrays.fov[frame];
+      return record;
+    });
+
+    return JSON.stringify({
+      meta: {
+        generated_by: 'deforum-web-pilot',
+        generated_at: new Date().toISOString(),
+        variant
+      },
+      options: {
+        output_fps: fps
+      },
+      rendered_frames: renderedFrames
+    }, null, 2);
+  }
+
+  /**
+   * Absolute FOV at the keyed frames, plus near/far planes converted to
+   * schedule units with the same scale as translation
+   */
+  private generateLensSchedules(
+    channelArrays: ChannelArrays,
+    options: ExportOptions,
+    camera: { near: number; far: number }
+  ): { fov: string; near: string; far: string } {
+    const keyedFrames = this.keyedFrames(options, channelArrays.fov.length);
+    // Lens changes are rare, so only keep keys where the FOV moves
+    const fovKeys = reduceKeyframes(keyedFrames.map(frame => [frame, channelArrays.fov[frame]]), 1e-6);
+    const fovMap = new Map<number, number>(fovKeys);
+
+    const firstFrame = keyedFrames[0] ?? 0;
+    const unitScale = this.getTranslationUnitScale(options);
+    return {
+      fov: this.buildScheduleString(fovMap),
+      near: this.buildScheduleString(new Map([[firstFrame, camera.near * unitScale]])),
+      far: this.buildScheduleString(new Map([[firstFrame, camera.far * unitScale]]))
+    };
+  }
+
+  /**
+   * Write the take's schedules into a Deforum settings file. Only the motion,
+   * lens, max_frames and animation_mode keys change; everything else is kept
+   * exactly as loaded. Keys are renumbered so frameOffset (the export's first
+   * frame) becomes Deforum's frame 0.
+   */
+  mergeIntoSettings(
+    settingsText: string,
+    schedules: DeforumSchedules | Deforum2DSchedules,
+    maxFrames: number,
+    frameOffset = 0
+  ): string {
+    const rebased = Object.fromEntries(
+      Object.entries(schedules).map(([key, schedule]) => [key, shiftSchedule(schedule, frameOffset)])
+    ) as Record<string, string>;
+
+    if ('angle' in schedules) {
+      // 2D mode keeps the file's 3D rotations and lens, which it ignores
+      return replaceTopLevelValues(settingsText, {
+        animation_mode: '2D',
+        max_frames: maxFrames,
+        ...rebased
+      });
+    }
+
+    return replaceTopLevelValues(settingsText, {
+      animation_mode: '3D',
+      max_frames: maxFrames,
+      translation_x: rebased.translation_x,
+      translation_y: rebased.translation_y,
+      translation_z: rebased.translation_z,
+      rotation_3d_x: rebased.rotation_3d_x,
+      rotation_3d_y: rebased.rotation_3d_y,
+      rotation_3d_z: rebased.rotation_3d_z,
+      fov_schedule: rebased.fov_schedule,
+      near_schedule: rebased.near_schedule,
+      far_schedule: rebased.far_schedule
+    });
+  }
+
+  /**
+   * Schedule units per scene unit for translation and depth
+   */
+  getTranslationUnitScale(options: ExportOptions): number {
+    const profile = options.profile ?? DEFAULT_EXPORT_PROFILE;
+    return this.mapScale(options.masterScaleTranslate) * profile.translationScale;
+  }
+
+  /**
+   * Frames that get a key, honoring range, step and cadence
+   */
+  private keyedFrames(options: ExportOptions, totalFrames: number): number[] {
+    const { frameStart, frameEnd, frameStep, cadence } = options;
+    const actualFrameEnd = Math.min(frameEnd, totalFrames - 1);
+    // Honor cadence by only exporting every Nth frame when cadence > 1
+    const startFrameForCadence = cadence > 1
+      ? Math.ceil(frameStart / cadence) * cadence
+      : frameStart;
+
+    const frames: number[] = [];
+    for (let frame = startFrameForCadence; frame <= actualFrameEnd; frame += frameStep) {
+      if (cadence > 1 && frame % cadence !== 0) continue;
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  /**
+   * Map slider values v in [-2, 2] to scale factors: 0=>1x, v>0=>v, v<0=>1/(-v)
+   */
+  private mapScale(v: number | undefined): number {
+    const x = typeof v === 'number' ? v : 0;
+    if (x === 0) return 1;
+    if (x > 0) return x;
+    return 1 / (-x);
+  }
+
+  /**
+   * Report for the most recent generateSchedules call
+   */
+  getLastReport(): ExportReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Deforum path preview for the most recent generateSchedules call
+   */
+  getLastPreview(): DeforumPreview | null {
+    return this.lastPreview;
+  }
+
+  /**
+   * Rotation from one frame's pose to another's, in the first pose's local
+   * frame, as Deforum's XYZ Euler angles (radians)
+   */
+  private relativeRotation(channelArrays: ChannelArrays, fromFrame: number, toFrame: number): THREE.Euler {
+    const from = this.orientationAt(channelArrays, fromFrame);
+    const to = this.orientationAt(channelArrays, toFrame);
+    const relative = from.invert().multiply(to);
+    return new THREE.Euler().setFromQuaternion(relative, 'XYZ');
+  }
+
+  private orientationAt(channelArrays: ChannelArrays, frame: number): THREE.Quaternion {
+    return new THREE.Quaternion().setFromEuler(new THREE.Euler(
+      channelArrays.rotation_3d_x[frame],
+      channelArrays.rotation_3d_y[frame],
+      channelArrays.rotation_3d_z[frame],
+      'YXZ'
+    ));
+  }
+
+  /**
+   * Rebuild the keyed path from the final schedule values (after scaling,
+   * signs and keyframe reduction) by chaining the local deltas from the
+   * first keyed pose, and return the worst drift from the recorded path
+   */
+  private measureRoundTrip(
+    channelArrays: ChannelArrays,
+    keyedFrames: number[],
+    channelMaps: Map<number, number>[],
+    profile: ExportProfile,
+    factors: { translate: number[]; rotate: number[] }
+  ): { position: number; rotation: number } {
+    if (keyedFrames.length < 2) return { position: 0, rotation: 0 };
+
+    const keys = channelMaps.map(map =>
+      Array.from(map.entries()).sort((a, b) => a[0] - b[0]) as Keyframe[]
+    );
+
+    const first = keyedFrames[0];
+    const start = {
+      position: new THREE.Vector3(
+        channelArrays.translation_x[first],
+        channelArrays.translation_y[first],
+        channelArrays.translation_z[first]
+      ),
+      orientation: this.orientationAt(channelArrays, first)
+    };
+    const pose = { position: start.position.clone(), orientation: start.orientation.clone() };
+    const { position, orientation } = pose;
+    let maxPosition = 0;
+    let maxRotation = 0;
+
+    for (const frame of keyedFrames.slice(1)) {
+      const values = keys.map(channel => valueAtFrame(channel, frame));
+      this.stepPose(pose, start, values, profile, factors);
+
+      const recordedPosition = new THREE.Vector3(
+        channelArrays.translation_x[frame],
+        channelArrays.translation_y[frame],
+        channelArrays.translation_z[frame]
+      );
+      maxPosition = Math.max(maxPosition, position.distanceTo(recordedPosition));
+      maxRotation = Math.max(maxRotation, this.radiansToDegrees(orientation.angleTo(this.orientationAt(channelArrays, frame))));
+    }
+
+    return { position: maxPosition, rotation: maxRotation };
+  }
+
+  /**
+   * Replace a channel's keys with the fewest that reproduce it within tolerance
+   */
+  private reduceChannel(frameValueMap: Map<number, number>, tolerance: number, report: ExportReport): void {
+    const keys: Keyframe[] = Array.from(frameValueMap.entries()).sort((a, b) => a[0] - b[0]);
+    const reduced = reduceKeyframes(keys, tolerance);
+
+    report.keyframesTotal += keys.length;
+    report.keyframesKept += reduced.length;
+    if (reduced.length === keys.length) return;
+
+    report.maxDeviation = Math.max(report.maxDeviation, maxInterpolationError(keys, reduced));
+    frameValueMap.clear();
+    for (const [frame, value] of reduced) {
+      frameValueMap.set(frame, value);
+    }
+  }
+
+  /**
+   * Add empty frames (0 values, or the channel's idle value) for missing frame numbers
    */
   private addEmptyFrames(
     frameMap: Map<number, number>,
     frameStart: number,
     frameEnd: number,
-    frameStep: number
+    frameStep: number,
+    idleValue = 0
   ): void {
     for (let frame = frameStart; frame <= frameEnd; frame += frameStep) {
       if (!frameMap.has(frame)) {
-        frameMap.set(frame, 0);
+        frameMap.set(frame, idleValue);
       }
     }
   }
@@ -175,14 +736,14 @@ export class Exporter {
   /**
    * Generate JSON object with schedules
    */
-  generateJSON(schedules: DeforumSchedules): string {
+  generateJSON(schedules: DeforumSchedules | Deforum2DSchedules): string {
     return JSON.stringify(schedules, null, 2);
   }
 
   /**
    * Generate pretty-printed schedule strings for quick copy
    */
-  generatePrettySchedules(schedules: DeforumSchedules): string {
+  generatePrettySchedules(schedules: DeforumSchedules | Deforum2DSchedules): string {
     const lines: string[] = [];
     
     lines.push('Deforum Schedules:');
@@ -211,10 +772,10 @@ export class Exporter {
   }
 
   /**
-   * Download text as a file
+   * Download text (or binary data) as a file
    */
-  downloadAsFile(text: string, filename: string): void {
-    const blob = new Blob([text], { type: 'text/plain' });
+  downloadAsFile(content: string | ArrayBuffer, filename: string, type = 'text/plain'): void {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     
     const link = document.createElement('a');
@@ -261,6 +822,17 @@ export class Exporter {
       errors.push('Axis scale Z must be positive');
     }
 
+    if (options.profile) {
+      const { translationAxes, rotationAxes } = options.profile;
+      if (new Set(translationAxes).size !== 3 || new Set(rotationAxes).size !== 3) {
+        errors.push('Profile axis order must use each of x, y and z once');
+      }
+    }
+
+    if ((options.keyframeTolerance ?? 0) < 0) {
+      errors.push('Keyframe tolerance must be non-negative');
+    }
+
     return errors;
   }
 
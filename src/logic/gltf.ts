@@ -0,0 +1,167 @@
+/**
+ * glTF 2.0 export of a take as an animated camera (.gltf and .glb)
+ */
+
+import * as THREE from 'three';
+
+interface CameraState {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  fov: number;
+}
+
+export interface GLTFCameraOptions {
+  name: string;
+  fps: number;
+  aspectRatio: number;
+  near: number;
+  far: number;
+}
+
+const FLOAT = 5126;
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_JSON_CHUNK = 0x4e4f534a; // "JSON"
+const GLB_BIN_CHUNK = 0x004e4942; // "BIN\0"
+
+/**
+ * Camera node keyed on every frame: translation and rotation samplers at
+ * the take's FPS, and yfov from the first frame. glTF's camera space matches
+ * Three.js (Y-up, looking down -Z), so poses go out unchanged. FOV changes
+ * are animated through KHR_animation_pointer, which importers without it
+ * skip.
+ */
+function buildCameraAsset(states: CameraState[], options: GLTFCameraOptions): { json: Record<string, unknown>; binary: ArrayBuffer } {
+  const count = states.length;
+  const times = new Float32Array(count);
+  const translations = new Float32Array(count * 3);
+  const rotations = new Float32Array(count * 4);
+  const fovs = new Float32Array(count);
+
+  const quaternion = new THREE.Quaternion();
+  const previous = new THREE.Quaternion();
+  states.forEach((state, frame) => {
+    times[frame] = frame / options.fps;
+    state.position.toArray(translations, frame * 3);
+    // Keep consecutive quaternions in the same hemisphere so linear
+    // interpolation takes the short way round
+    quaternion.setFromEuler(state.rotation);
+    if (frame > 0 && quaternion.dot(previous) < 0) {
+      quaternion.set(-quaternion.x, -quaternion.y, -quaternion.z, -quaternion.w);
+    }
+    quaternion.toArray(rotations, frame * 4);
+    previous.copy(quaternion);
+    fovs[frame] = (state.fov * Math.PI) / 180;
+  });
+
+  const animateFov = fovs.some(fov => fov !== fovs[0]);
+  const arrays = animateFov ? [times, translations, rotations, fovs] : [times, translations, rotations];
+  const binary = new Uint8Array(arrays.reduce((length, array) => length + array.byteLength, 0));
+  const bufferViews: Record<string, number>[] = [];
+  let offset = 0;
+  for (const array of arrays) {
+    binary.set(new Uint8Array(array.buffer), offset);
+    bufferViews.push({ buffer: 0, byteOffset: offset, byteLength: array.byteLength });
+    offset += array.byteLength;
+  }
+
+  const channels: Record<string, unknown>[] = [
+    { sampler: 0, target: { node: 0, path: 'translation' } },
+    { sampler: 1, target: { node: 0, path: 'rotation' } }
+  ];
+  const samplers = [
+    { input: 0, output: 1, interpolation: 'LINEAR' },
+    { input: 0, output: 2, interpolation: 'LINEAR' }
+  ];
+  if (animateFov) {
+    channels.push({
+      sampler: 2,
+      target: { path: 'pointer', extensions: { KHR_animation_pointer: { pointer: '/cameras/0/perspective/yfov' } } }
+    });
+    samplers.push({ input: 0, output: 3, interpolation: 'LINEAR' });
+  }
+
+  const json: Record<string, unknown> = {
+    asset: { version: '2.0', generator: 'Deforum Web Pilot' },
+    ...(animateFov ? { extensionsUsed: ['KHR_animation_pointer'] } : {}),
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{
+      name: options.name,
+      camera: 0,
+      translation: Array.from(translations.subarray(0, 3)),
+      rotation: Array.from(rotations.subarray(0, 4))
+    }],
+    cameras: [{
+      name: options.name,
+      type: 'perspective',
+      perspective: { yfov: fovs[0], aspectRatio: options.aspectRatio, znear: options.near, zfar: options.far }
+    }],
+    animations: [{ name: options.name, channels, samplers }],
+    buffers: [{ byteLength: binary.byteLength }],
+    bufferViews,
+    accessors: [
+      { bufferView: 0, componentType: FLOAT, count, type: 'SCALAR', min: [times[0]], max: [times[count - 1]] },
+      { bufferView: 1, componentType: FLOAT, count, type: 'VEC3' },
+      { bufferView: 2, componentType: FLOAT, count, type: 'VEC4' },
+      ...(animateFov ? [{ bufferView: 3, componentType: FLOAT, count, type: 'SCALAR' }] : [])
+    ]
+  };
+
+  return { json, binary: binary.buffer };
+}
+
+/**
+ * .gltf text with the animation data embedded as a base64 buffer
+ */
+export function generateGLTF(states: CameraState[], options: GLTFCameraOptions): string {
+  if (states.length === 0) throw new Error('No frames to export');
+  const { json, binary } = buildCameraAsset(states, options);
+  const buffers = [{ byteLength: binary.byteLength, uri: `data:application/octet-stream;base64,${toBase64(binary)}` }];
+  return JSON.stringify({ ...json, buffers }, null, 2);
+}
+
+/**
+ * Binary .glb: header, JSON chunk and BIN chunk, each padded to 4 bytes
+ */
+export function generateGLB(states: CameraState[], options: GLTFCameraOptions): ArrayBuffer {
+  if (states.length === 0) throw new Error('No frames to export');
+  const { json, binary } = buildCameraAsset(states, options);
+
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = align4(jsonBytes.byteLength);
+  const binLength = align4(binary.byteLength);
+  const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+
+  const glb = new ArrayBuffer(totalLength);
+  const view = new DataView(glb);
+  const bytes = new Uint8Array(glb);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_JSON_CHUNK, true);
+  bytes.set(jsonBytes, 20);
+  bytes.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonLength); // JSON pads with spaces
+
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, binLength, true);
+  view.setUint32(binStart + 4, GLB_BIN_CHUNK, true);
+  bytes.set(new Uint8Array(binary), binStart + 8);
+
+  return glb;
+}
+
+function align4(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so long takes stay under the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
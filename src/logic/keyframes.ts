@@ -0,0 +1,74 @@
+/**
+ * Keyframe reduction for schedules that Deforum interpolates linearly
+ */
+
+export type Keyframe = [frame: number, value: number];
+
+/**
+ * Ramer–Douglas–Peucker on a schedule. Error is measured along the value
+ * axis (what Deforum reads on each frame), not perpendicular to the line.
+ * The first and last keys are always kept.
+ */
+export function reduceKeyframes(keys: Keyframe[], tolerance: number): Keyframe[] {
+  if (keys.length <= 2 || tolerance <= 0) return keys.map(key => [...key] as Keyframe);
+
+  const keep = new Array<boolean>(keys.length).fill(false);
+  keep[0] = true;
+  keep[keys.length - 1] = true;
+
+  // Iterative to stay safe on long takes
+  const stack: [number, number][] = [[0, keys.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let worst = -1;
+    let worstError = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const error = Math.abs(keys[i][1] - interpolate(keys[first], keys[last], keys[i][0]));
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+    if (worst !== -1) {
+      keep[worst] = true;
+      stack.push([first, worst], [worst, last]);
+    }
+  }
+
+  return keys.filter((_, i) => keep[i]).map(key => [...key] as Keyframe);
+}
+
+/**
+ * Largest difference between the original keys and the linear
+ * interpolation of the reduced keys at the same frames
+ */
+export function maxInterpolationError(original: Keyframe[], reduced: Keyframe[]): number {
+  let maxError = 0;
+  for (const [frame, value] of original) {
+    maxError = Math.max(maxError, Math.abs(value - valueAtFrame(reduced, frame)));
+  }
+  return maxError;
+}
+
+/**
+ * Schedule value at a frame, linearly interpolated between keys and held
+ * past the ends
+ */
+export function valueAtFrame(keys: Keyframe[], frame: number): number {
+  if (keys.length === 0) return 0;
+  // Binary search for the last key before the frame
+  let low = 0;
+  let high = keys.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (keys[mid][0] <= frame) low = mid;
+    else high = mid;
+  }
+  return interpolate(keys[low], keys[high], frame);
+}
+
+function interpolate(a: Keyframe, b: Keyframe, frame: number): number {
+  if (b[0] === a[0]) return a[1];
+  const t = Math.max(0, Math.min(1, (frame - a[0]) / (b[0] - a[0])));
+  return a[1] + (b[1] - a[1]) * t;
+}
@@ -0,0 +1,165 @@
+/**
+ * Velocity, acceleration and jerk limiting for recorded camera paths
+ */
+
+import { ChannelArrays, MotionLimits } from '../types';
+import { unwrapAngles } from './smoothing';
+
+type Vec3 = [number, number, number];
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Limit a take's per-frame motion. Translation and rotation are limited as
+ * 3D vectors (rotation on unwrapped Euler angles). The limits act on the
+ * per-frame deltas, which are then re-integrated from the first pose, so a
+ * clamped spike shifts every later frame by the amount it was cut.
+ * Returns the new arrays and the frames whose delta changed.
+ */
+export function limitMotion(
+  arrays: ChannelArrays,
+  limits: MotionLimits,
+  fps: number
+): { arrays: ChannelArrays; clampedFrames: number[] } {
+  const dt = 1 / fps;
+  const length = arrays.translation_x.length;
+
+  const positions = toVectors(arrays.translation_x, arrays.translation_y, arrays.translation_z);
+  const rotations = toVectors(
+    unwrapAngles(arrays.rotation_3d_x),
+    unwrapAngles(arrays.rotation_3d_y),
+    unwrapAngles(arrays.rotation_3d_z)
+  );
+
+  const limitedPositions = limitPath(positions, {
+    velocity: limits.maxLinearVelocity * dt,
+    acceleration: limits.maxLinearAcceleration * dt * dt,
+    jerk: limits.maxLinearJerk * dt * dt * dt
+  });
+  const limitedRotations = limitPath(rotations, {
+    velocity: limits.maxAngularVelocity * DEG_TO_RAD * dt,
+    acceleration: limits.maxAngularAcceleration * DEG_TO_RAD * dt * dt,
+    jerk: limits.maxAngularJerk * DEG_TO_RAD * dt * dt * dt
+  });
+
+  const clampedFrames: number[] = [];
+  for (let i = 1; i < length; i++) {
+    if (
+      deltaChanged(positions, limitedPositions, i, 1e-9) ||
+      deltaChanged(rotations, limitedRotations, i, 1e-9)
+    ) {
+      clampedFrames.push(i);
+    }
+  }
+
+  return {
+    arrays: {
+      translation_x: limitedPositions.map(p => p[0]),
+      translation_y: limitedPositions.map(p => p[1]),
+      translation_z: limitedPositions.map(p => p[2]),
+      rotation_3d_x: limitedRotations.map(r => r[0]),
+      rotation_3d_y: limitedRotations.map(r => r[1]),
+      rotation_3d_z: limitedRotations.map(r => r[2]),
+      fov: [...arrays.fov]
+    },
+    clampedFrames
+  };
+}
+
+/**
+ * Collapse sorted frame numbers into "a–b" ranges for display
+ */
+export function formatFrameRanges(frames: number[]): string {
+  const ranges: string[] = [];
+  let start = -1;
+  let previous = -1;
+  for (const frame of frames) {
+    if (frame !== previous + 1) {
+      if (start !== -1) ranges.push(start === previous ? `${start}` : `${start}–${previous}`);
+      start = frame;
+    }
+    previous = frame;
+  }
+  if (start !== -1) ranges.push(start === previous ? `${start}` : `${start}–${previous}`);
+  return ranges.join(', ');
+}
+
+/**
+ * Limits in per-frame units; 0 or less disables that limit
+ */
+function limitPath(path: Vec3[], perFrame: { velocity: number; acceleration: number; jerk: number }): Vec3[] {
+  if (path.length < 2) return path.map(p => [...p] as Vec3);
+
+  let velocities = differences(path);
+
+  velocities = velocities.map(v => clampMagnitude(v, perFrame.velocity));
+  velocities = limitChange(velocities, perFrame.acceleration);
+
+  if (perFrame.jerk > 0) {
+    // Limit the change of acceleration, then rebuild velocities from the first one
+    const accelerations = limitChange(differences(velocities), perFrame.jerk);
+    velocities = integrate(velocities[0], accelerations);
+    velocities = velocities.map(v => clampMagnitude(v, perFrame.velocity));
+  }
+
+  return integrate(path[0], velocities);
+}
+
+/**
+ * Forward then backward pass so each step changes by at most maxChange,
+ * which limits both speeding up and slowing down symmetrically
+ */
+function limitChange(series: Vec3[], maxChange: number): Vec3[] {
+  if (maxChange <= 0 || series.length < 2) return series;
+
+  const result = series.map(v => [...v] as Vec3);
+  for (let i = 1; i < result.length; i++) {
+    result[i] = add(result[i - 1], clampMagnitude(subtract(result[i], result[i - 1]), maxChange));
+  }
+  for (let i = result.length - 2; i >= 0; i--) {
+    result[i] = add(result[i + 1], clampMagnitude(subtract(result[i], result[i + 1]), maxChange));
+  }
+  return result;
+}
+
+function toVectors(x: number[], y: number[], z: number[]): Vec3[] {
+  return x.map((_, i) => [x[i], y[i], z[i]]);
+}
+
+function differences(series: Vec3[]): Vec3[] {
+  const result: Vec3[] = [];
+  for (let i = 1; i < series.length; i++) {
+    result.push(subtract(series[i], series[i - 1]));
+  }
+  return result;
+}
+
+function integrate(start: Vec3, steps: Vec3[]): Vec3[] {
+  const result: Vec3[] = [[...start] as Vec3];
+  for (const step of steps) {
+    result.push(add(result[result.length - 1], step));
+  }
+  return result;
+}
+
+function deltaChanged(original: Vec3[], limited: Vec3[], i: number, epsilon: number): boolean {
+  const a = subtract(original[i], original[i - 1]);
+  const b = subtract(limited[i], limited[i - 1]);
+  return Math.abs(a[0] - b[0]) > epsilon || Math.abs(a[1] - b[1]) > epsilon || Math.abs(a[2] - b[2]) > epsilon;
+}
+
+function clampMagnitude(v: Vec3, max: number): Vec3 {
+  if (max <= 0) return v;
+  const length = Math.hypot(v[0], v[1], v[2]);
+  if (length <= max) return v;
+  const scale = max / length;
+  return [v[0] * scale, v[1] * scale, v[2] * scale];
+}
+
+function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
@@ -5,6 +5,19 @@
 import * as THREE from 'three';
 import { CameraControls, SpeedLevel } from '../types';
 
+const TEXT_INPUT_TYPES = ['text', 'number', 'search', 'email', 'url', 'tel', 'password'];
+
+/**
+ * Whether key presses go into a field the user is typing in. Sliders,
+ * checkboxes and selects don't count, so shortcuts keep working after
+ * using them.
+ */
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.includes(target.type);
+  return target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
 export class Pilot {
   private camera: THREE.PerspectiveCamera;
   private controls: CameraControls;
@@ -16,6 +29,7 @@ export class Pilot {
   };
   private currentSpeedLevel: SpeedLevel = 1;
   private isPaused = false;
+  private fovSpeed = 20; // Degrees per second while a zoom key is held
 
   constructor(camera: THREE.PerspectiveCamera) {
     this.camera = camera;
@@ -30,7 +44,9 @@ export class Pilot {
       mouseX: 0,
       mouseY: 0,
       sensitivity: 0.002,
-      shiftPressed: false
+      shiftPressed: false,
+      zoomIn: false,
+      zoomOut: false
     };
 
     this.setupEventListeners();
@@ -53,7 +69,8 @@ export class Pilot {
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
-    if (this.isPaused) return;
+    // Typing a take name or a number shouldn't fly or zoom the camera
+    if (this.isPaused || isTextEntryTarget(event.target)) return;
 
     switch (event.code) {
       case 'KeyW':
@@ -77,6 +94,13 @@ export class Pilot {
       case 'KeyR':
         this.resetCamera();
         break;
+      case 'KeyZ':
+        // Ctrl/Cmd+Z is undo
+        if (!event.ctrlKey && !event.metaKey) this.controls.zoomIn = true;
+        break;
+      case 'KeyX':
+        this.controls.zoomOut = true;
+        break;
       case 'Escape':
         this.releasePointerLock();
         break;
@@ -120,6 +144,12 @@ export class Pilot {
       case 'KeyE':
         this.controls.moveDown = false;
         break;
+      case 'KeyZ':
+        this.controls.zoomIn = false;
+        break;
+      case 'KeyX':
+        this.controls.zoomOut = false;
+        break;
       case 'Space':
         // Prevent default space behavior (page scrolling)
         event.preventDefault();
@@ -289,6 +319,13 @@ export class Pilot {
       this.camera.position.addScaledVector(up, -moveSpeed);
     }
 
+    // Zoom keys change the lens, so dolly-zooms are recorded into the fov channel
+    if (this.controls.zoomIn !== this.controls.zoomOut) {
+      const fovChange = this.fovSpeed * speedMultiplier * deltaTime * (this.controls.zoomIn ? -1 : 1);
+      this.camera.fov = Math.max(10, Math.min(120, this.camera.fov + fovChange));
+      this.camera.updateProjectionMatrix();
+    }
+
     // Apply mouse look rotation only when mouse look is active (FPS style - no roll/tilt)
     if (this.controls.mouseLook) {
       this.camera.rotation.set(
@@ -308,6 +345,9 @@ export class Pilot {
     this.camera.rotation.copy(rotation);
     this.camera.fov = fov;
     this.camera.updateProjectionMatrix();
+    // Keep mouse look in sync so taking over control doesn't snap the view
+    this.controls.mouseX = rotation.y;
+    this.controls.mouseY = rotation.x;
   }
 
   /**
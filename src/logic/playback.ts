@@ -119,6 +119,27 @@ export class Playback {
     return this.recorder.getCameraStateAtFrame(this.currentFrame - 1);
   }
 
+  /**
+   * While recording, drive the disarmed channels of the camera from the
+   * guide take so the pilot only controls the armed ones
+   */
+  driveDisarmedChannels(camera: THREE.PerspectiveCamera): boolean {
+    const values = this.recorder.getGuideChannels(this.recorder.getCurrentFrame());
+    if (!values) return false;
+
+    if (values.translation_x !== undefined) camera.position.x = values.translation_x;
+    if (values.translation_y !== undefined) camera.position.y = values.translation_y;
+    if (values.translation_z !== undefined) camera.position.z = values.translation_z;
+    if (values.rotation_3d_x !== undefined) camera.rotation.x = values.rotation_3d_x;
+    if (values.rotation_3d_y !== undefined) camera.rotation.y = values.rotation_3d_y;
+    if (values.rotation_3d_z !== undefined) camera.rotation.z = values.rotation_3d_z;
+    if (values.fov !== undefined && values.fov !== camera.fov) {
+      camera.fov = values.fov;
+      camera.updateProjectionMatrix();
+    }
+    return true;
+  }
+
   /**
    * Seek to a specific frame
    */
@@ -0,0 +1,90 @@
+/**
+ * Axis-mapping profiles for the Deforum variants we export to
+ */
+
+import { ExportProfile } from '../types';
+
+const STORAGE_KEY = 'deforum-web-pilot.export-profiles';
+
+/**
+ * The mapping tuned against A1111 Deforum: local Y and Z translation,
+ * pitch and yaw flipped, rotations scaled to a tenth of a degree
+ */
+export const DEFAULT_EXPORT_PROFILE: ExportProfile = {
+  id: 'a1111',
+  name: 'A1111 Deforum',
+  builtIn: true,
+  mode: 'delta',
+  translationAxes: ['x', 'y', 'z'],
+  rotationAxes: ['x', 'y', 'z'],
+  translationSigns: [1, -1, -1],
+  rotationSigns: [-1, -1, 1],
+  translationScale: 1,
+  rotationScale: 0.1
+};
+
+/**
+ * Forge Deforum (sd-forge-deforum) is a fork of deforum-for-automatic1111-webui
+ * that keeps its 3D warp unchanged: anim_frame_warp_3d in
+ * scripts/deforum_helpers/animation.py reads per-frame deltas, scales
+ * translation by 1/200 with X and Z negated, and turns the rotation
+ * schedules from degrees into radians. Same mapping as A1111.
+ */
+export const FORGE_EXPORT_PROFILE: ExportProfile = {
+  ...DEFAULT_EXPORT_PROFILE,
+  id: 'forge',
+  name: 'Forge Deforum'
+};
+
+/**
+ * ComfyUI Deforum (deforum-comfy-nodes) renders through the anim_frame_warp_3d
+ * of the deforum package it bundles, ported from the A1111 extension with
+ * the same delta schedules, 1/200 translation scale, axis negations and
+ * degree rotations. Same mapping as A1111.
+ */
+export const COMFYUI_EXPORT_PROFILE: ExportProfile = {
+  ...DEFAULT_EXPORT_PROFILE,
+  id: 'comfyui',
+  name: 'ComfyUI Deforum'
+};
+
+export const BUILT_IN_PROFILES: ExportProfile[] = [DEFAULT_EXPORT_PROFILE, FORGE_EXPORT_PROFILE, COMFYUI_EXPORT_PROFILE];
+
+/**
+ * Custom profiles saved in this browser
+ */
+export function loadCustomProfiles(): ExportProfile[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.map(profile => ({ ...profile, builtIn: false })) : [];
+  } catch (err) {
+    console.error('Failed to load export profiles:', err);
+    return [];
+  }
+}
+
+export function saveCustomProfiles(profiles: ExportProfile[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(profile => !profile.builtIn)));
+  } catch (err) {
+    console.error('Failed to save export profiles:', err);
+  }
+}
+
+/**
+ * Editable copy of a profile under a new id
+ */
+export function copyProfile(source: ExportProfile, name: string): ExportProfile {
+  return {
+    ...source,
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    builtIn: false,
+    translationAxes: [...source.translationAxes],
+    rotationAxes: [...source.rotationAxes],
+    translationSigns: [...source.translationSigns],
+    rotationSigns: [...source.rotationSigns]
+  };
+}
@@ -2,17 +2,59 @@
  * Recording and smoothing logic for camera data
  */
 
-import { Sample, ChannelArrays, SmoothingOptions } from '../types';
+import { Sample, ChannelArrays, SmoothingOptions, MotionLimits, ShakeOptions, ExportOptions, Take, TakeSummary, TakeHistoryEntry, PunchInOptions, RecordArming } from '../types';
 import * as THREE from 'three';
+import { limitMotion } from './limiter';
+import { applyShake, shakeOffsetAt } from './shake';
+import { smoothSeries, smoothRotations, unwrapAngles, optionsForChannel, rangeWeights, pinWeights, blendByWeights } from './smoothing';
+
+export const CHANNEL_KEYS: (keyof ChannelArrays)[] = [
+  'translation_x', 'translation_y', 'translation_z',
+  'rotation_3d_x', 'rotation_3d_y', 'rotation_3d_z', 'fov'
+];
+
+interface CameraPose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  euler: THREE.Euler; // Unwrapped YXZ angles as the camera reported them
+  fov: number;
+}
+
+const MAX_HISTORY = 50;
+
+/** Sample field holding each channel */
+const SAMPLE_FIELDS: Record<keyof ChannelArrays, 'px' | 'py' | 'pz' | 'rx' | 'ry' | 'rz' | 'fov'> = {
+  translation_x: 'px',
+  translation_y: 'py',
+  translation_z: 'pz',
+  rotation_3d_x: 'rx',
+  rotation_3d_y: 'ry',
+  rotation_3d_z: 'rz',
+  fov: 'fov'
+};
 
 export class Recorder {
-  private samples: Sample[] = [];
-  private channelArrays: ChannelArrays | null = null;
-  private originalChannelArrays: ChannelArrays | null = null;
+  private takes: Take[] = [];
+  private activeTakeId: string | null = null;
+  private nextTakeNumber = 1;
   private isRecording = false;
   private currentFrame = 0;
   private accumulator = 0;
+  private previousPose: CameraPose | null = null; // Camera pose at the end of the last update
   private fixedDelta = 1 / 30; // Will be updated when targetFPS changes
+  private timeScale = 1; // Output seconds per real second; < 1 records slow motion
+  private arming: RecordArming = {
+    translation_x: true,
+    translation_y: true,
+    translation_z: true,
+    rotation_3d_x: true,
+    rotation_3d_y: true,
+    rotation_3d_z: true,
+    fov: true
+  };
+  private guide: ChannelArrays | null = null; // Source for disarmed channels while recording
+  private punch: { options: PunchInOptions; sourceSamples: Sample[]; recorded: Sample[] } | null = null;
+  private maxFrames: number | null = null; // Recording stops by itself at this length
 
   constructor(targetFPS = 30) {
     this.setTargetFPS(targetFPS);
@@ -22,18 +64,112 @@ export class Recorder {
     this.fixedDelta = 1 / fps;
   }
 
+  /**
+   * Scale the recording clock, e.g. 0.25 turns four seconds of flying
+   * into one second of output
+   */
+  setTimeScale(scale: number): void {
+    if (!Number.isFinite(scale) || scale <= 0) return;
+    this.timeScale = Math.max(0.05, Math.min(4, scale));
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  /**
+   * Limit recordings to a frame count (e.g. Deforum's max_frames), null = unlimited
+   */
+  setMaxFrames(maxFrames: number | null): void {
+    this.maxFrames = maxFrames !== null && maxFrames > 0 ? Math.floor(maxFrames) : null;
+  }
+
+  getMaxFrames(): number | null {
+    return this.maxFrames;
+  }
+
+  setArming(arming: RecordArming): void {
+    if (this.isRecording) return;
+    this.arming = { ...arming };
+  }
+
+  getArming(): RecordArming {
+    return { ...this.arming };
+  }
+
+  /**
+   * Start recording into a new take, which becomes the active take.
+   * Disarmed channels are copied from the previously active take.
+   */
   startRecording(): void {
-    this.samples = [];
-    this.channelArrays = null;
-    this.originalChannelArrays = null;
+    this.guide = this.createGuide(this.getActiveTake());
+    const take = this.createTake();
+    this.takes.push(take);
+    this.activeTakeId = take.id;
     this.isRecording = true;
     this.currentFrame = 0;
     this.accumulator = 0;
+    this.previousPose = null;
+  }
+
+  /**
+   * Start an overdub of the active take from options.punchIn.
+   * The result goes into a new take; frames before the punch-in (and after
+   * the punch-out, if set) come from the source take as currently edited.
+   */
+  startPunchIn(options: PunchInOptions): boolean {
+    const source = this.getActiveTake();
+    if (this.isRecording || !source?.channelArrays) return false;
+
+    const sourceSamples = this.samplesFromChannelArrays(source.channelArrays);
+    const punchIn = Math.max(0, Math.min(Math.floor(options.punchIn), sourceSamples.length - 1));
+    const punchOut = options.punchOut === null
+      ? null
+      : Math.max(punchIn, Math.floor(options.punchOut));
+
+    const take: Take = {
+      ...this.createTake(),
+      name: `${source.name} punch`,
+      samples: sourceSamples.slice(0, punchIn),
+      exportOptions: source.exportOptions ? { ...source.exportOptions } : null
+    };
+
+    this.guide = this.createGuide(source);
+    this.takes.splice(this.takes.indexOf(source) + 1, 0, take);
+    this.activeTakeId = take.id;
+    this.punch = {
+      options: { ...options, punchIn, punchOut },
+      sourceSamples,
+      recorded: []
+    };
+    this.isRecording = true;
+    this.currentFrame = punchIn;
+    this.accumulator = 0;
+    this.previousPose = null;
+    return true;
+  }
+
+  isPunchingIn(): boolean {
+    return this.punch !== null;
   }
 
   stopRecording(): void {
+    const label = this.punch ? 'Punch-in' : this.guide ? 'Record (armed channels)' : 'Record';
     this.isRecording = false;
+    this.guide = null;
+    if (this.punch) {
+      const take = this.getActiveTake();
+      if (take) {
+        take.samples = this.mergePunch(this.punch.sourceSamples, this.punch.recorded, this.punch.options);
+      }
+      this.punch = null;
+    }
     this.buildChannelArrays();
+
+    const take = this.getActiveTake();
+    if (take) {
+      this.pushHistory(take, label);
+    }
   }
 
   isCurrentlyRecording(): boolean {
@@ -41,15 +177,28 @@ export class Recorder {
   }
 
   getSamples(): Sample[] {
-    return [...this.samples];
+    const take = this.getActiveTake();
+    return take ? [...take.samples] : [];
   }
 
   getChannelArrays(): ChannelArrays | null {
-    return this.channelArrays ? { ...this.channelArrays } : null;
+    const take = this.getActiveTake();
+    return take?.channelArrays ? { ...take.channelArrays } : null;
+  }
+
+  /**
+   * Channel arrays as played back and exported, with the shake layer applied
+   */
+  getOutputChannelArrays(): ChannelArrays | null {
+    const take = this.getActiveTake();
+    if (!take?.channelArrays) return null;
+    if (!take.shake?.enabled) return { ...take.channelArrays };
+    return applyShake(take.channelArrays, take.shake, 1 / this.fixedDelta);
   }
 
   getOriginalChannelArrays(): ChannelArrays | null {
-    return this.originalChannelArrays ? { ...this.originalChannelArrays } : null;
+    const take = this.getActiveTake();
+    return take?.originalChannelArrays ? { ...take.originalChannelArrays } : null;
   }
 
   getCurrentFrame(): number {
@@ -57,7 +206,256 @@ export class Recorder {
   }
 
   getTotalFrames(): number {
-    return this.samples.length;
+    return this.getActiveTake()?.samples.length ?? 0;
+  }
+
+  /**
+   * List all takes in recording order
+   */
+  getTakes(): TakeSummary[] {
+    return this.takes.map(take => ({
+      id: take.id,
+      name: take.name,
+      totalFrames: take.samples.length,
+      smoothingOptions: take.smoothingOptions ? { ...take.smoothingOptions } : null,
+      exportOptions: take.exportOptions ? { ...take.exportOptions } : null,
+      shake: take.shake ? { ...take.shake, weights: { ...take.shake.weights } } : null,
+      history: take.history.map(entry => entry.label),
+      historyIndex: take.historyIndex
+    }));
+  }
+
+  getActiveTakeId(): string | null {
+    return this.activeTakeId;
+  }
+
+  /**
+   * Make a take the one used by playback, smoothing and export
+   */
+  setActiveTake(id: string): boolean {
+    if (this.isRecording || !this.findTake(id)) return false;
+    this.activeTakeId = id;
+    return true;
+  }
+
+  renameTake(id: string, name: string): void {
+    const take = this.findTake(id);
+    const trimmed = name.trim();
+    if (take && trimmed) {
+      take.name = trimmed;
+    }
+  }
+
+  /**
+   * Copy a take (samples, smoothing state and export options) and activate the copy
+   */
+  duplicateTake(id: string): string | null {
+    const source = this.findTake(id);
+    if (!source || this.isRecording) return null;
+
+    const copy: Take = {
+      ...this.createTake(),
+      name: `${source.name} copy`,
+      samples: source.samples.map(sample => ({ ...sample })),
+      channelArrays: source.channelArrays ? this.nonDestructiveCopy(source.channelArrays) : null,
+      originalChannelArrays: source.originalChannelArrays ? this.nonDestructiveCopy(source.originalChannelArrays) : null,
+      smoothingOptions: source.smoothingOptions ? { ...source.smoothingOptions } : null,
+      exportOptions: source.exportOptions ? { ...source.exportOptions } : null,
+      shake: source.shake ? { ...source.shake, weights: { ...source.shake.weights } } : null,
+      // Entries are never mutated, so the copy can share them
+      history: [...source.history],
+      historyIndex: source.historyIndex
+    };
+
+    this.takes.splice(this.takes.indexOf(source) + 1, 0, copy);
+    this.activeTakeId = copy.id;
+    return copy.id;
+  }
+
+  /**
+   * Add a take built from a path that wasn't recorded here (e.g. re-imported
+   * schedules) and make it active
+   */
+  importTake(name: string, arrays: ChannelArrays): string | null {
+    if (this.isRecording || arrays.translation_x.length === 0) return null;
+
+    const take: Take = {
+      ...this.createTake(),
+      name,
+      samples: this.samplesFromChannelArrays(arrays),
+      channelArrays: this.nonDestructiveCopy(arrays),
+      originalChannelArrays: this.nonDestructiveCopy(arrays)
+    };
+    this.pushHistory(take, 'Import');
+
+    this.takes.push(take);
+    this.activeTakeId = take.id;
+    return take.id;
+  }
+
+  /**
+   * Delete a take; if it was active, the neighbouring take becomes active
+   */
+  deleteTake(id: string): void {
+    if (this.isRecording) return;
+
+    const index = this.takes.findIndex(take => take.id === id);
+    if (index === -1) return;
+
+    this.takes.splice(index, 1);
+    if (this.activeTakeId === id) {
+      const next = this.takes[Math.min(index, this.takes.length - 1)];
+      this.activeTakeId = next ? next.id : null;
+    }
+  }
+
+  /**
+   * Set or clear the shake layer of the active take
+   */
+  setShake(shake: ShakeOptions | null): void {
+    const take = this.getActiveTake();
+    if (take) {
+      take.shake = shake ? { ...shake, weights: { ...shake.weights } } : null;
+    }
+  }
+
+  /**
+   * Remember the export options used for the active take
+   */
+  setExportOptions(options: ExportOptions): void {
+    const take = this.getActiveTake();
+    if (take) {
+      take.exportOptions = { ...options };
+    }
+  }
+
+  /**
+   * Values of the disarmed channels at a frame (held at the last frame
+   * past the end of the source), or null when every channel is armed
+   */
+  getGuideChannels(frame: number): Partial<Record<keyof ChannelArrays, number>> | null {
+    if (!this.guide) return null;
+
+    const length = this.guide.translation_x.length;
+    const index = Math.max(0, Math.min(frame, length - 1));
+    const values: Partial<Record<keyof ChannelArrays, number>> = {};
+    for (const channel of CHANNEL_KEYS) {
+      if (!this.arming[channel]) {
+        values[channel] = this.guide[channel][index];
+      }
+    }
+    return values;
+  }
+
+  private createGuide(source: Take | null): ChannelArrays | null {
+    const allArmed = CHANNEL_KEYS.every(channel => this.arming[channel]);
+    if (allArmed || !source?.channelArrays || source.channelArrays.translation_x.length === 0) {
+      return null;
+    }
+    return this.nonDestructiveCopy(source.channelArrays);
+  }
+
+  private createTake(): Take {
+    const number = this.nextTakeNumber++;
+    return {
+      id: `take-${number}`,
+      name: `Take ${number}`,
+      samples: [],
+      channelArrays: null,
+      originalChannelArrays: null,
+      smoothingOptions: null,
+      exportOptions: null,
+      shake: null,
+      history: [],
+      historyIndex: -1
+    };
+  }
+
+  /**
+   * Record the take's current state as a new history entry, dropping any
+   * redo entries. A mergeKey matching the newest entry replaces it instead.
+   */
+  private pushHistory(take: Take, label: string, mergeKey?: string): void {
+    const entry: TakeHistoryEntry = {
+      label,
+      mergeKey,
+      samples: [...take.samples],
+      channelArrays: take.channelArrays ? this.nonDestructiveCopy(take.channelArrays) : null,
+      originalChannelArrays: take.originalChannelArrays ? this.nonDestructiveCopy(take.originalChannelArrays) : null,
+      smoothingOptions: take.smoothingOptions ? { ...take.smoothingOptions } : null
+    };
+
+    take.history = take.history.slice(0, take.historyIndex + 1);
+    const top = take.history[take.history.length - 1];
+    if (mergeKey && top?.mergeKey === mergeKey) {
+      take.history[take.history.length - 1] = entry;
+    } else {
+      take.history.push(entry);
+    }
+
+    if (take.history.length > MAX_HISTORY) {
+      take.history.splice(0, take.history.length - MAX_HISTORY);
+    }
+    take.historyIndex = take.history.length - 1;
+  }
+
+  /**
+   * Channel data from before the live edit group at the current history
+   * entry, or null when the next edit starts a new group
+   */
+  private liveEditBase(take: Take, mergeKey?: string): ChannelArrays | null {
+    if (!mergeKey || take.history[take.historyIndex]?.mergeKey !== mergeKey) return null;
+    return take.history[take.historyIndex - 1]?.channelArrays ?? take.originalChannelArrays;
+  }
+
+  private restoreHistory(take: Take, index: number): void {
+    const entry = take.history[index];
+    if (!entry) return;
+
+    take.samples = [...entry.samples];
+    take.channelArrays = entry.channelArrays ? this.nonDestructiveCopy(entry.channelArrays) : null;
+    take.originalChannelArrays = entry.originalChannelArrays ? this.nonDestructiveCopy(entry.originalChannelArrays) : null;
+    take.smoothingOptions = entry.smoothingOptions ? { ...entry.smoothingOptions } : null;
+    take.historyIndex = index;
+  }
+
+  /**
+   * Step the active take back one edit
+   */
+  undo(): boolean {
+    const take = this.getActiveTake();
+    if (this.isRecording || !take || take.historyIndex <= 0) return false;
+    this.restoreHistory(take, take.historyIndex - 1);
+    return true;
+  }
+
+  /**
+   * Re-apply the edit most recently undone on the active take
+   */
+  redo(): boolean {
+    const take = this.getActiveTake();
+    if (this.isRecording || !take || take.historyIndex >= take.history.length - 1) return false;
+    this.restoreHistory(take, take.historyIndex + 1);
+    return true;
+  }
+
+  /**
+   * Jump the active take to any entry in its history
+   */
+  goToHistory(index: number): boolean {
+    const take = this.getActiveTake();
+    if (this.isRecording || !take || index < 0 || index >= take.history.length) return false;
+    this.restoreHistory(take, index);
+    return true;
+  }
+
+  private findTake(id: string): Take | undefined {
+    return this.takes.find(take => take.id === id);
+  }
+
+  private getActiveTake(): Take | null {
+    if (!this.activeTakeId) return null;
+    return this.findTake(this.activeTakeId) ?? null;
   }
 
   /**
@@ -67,35 +465,180 @@ export class Recorder {
   update(camera: THREE.PerspectiveCamera, deltaTime: number): void {
     if (!this.isRecording) return;
 
-    this.accumulator += deltaTime;
+    // The frame clock runs in output time, not wall time
+    const frameTime = deltaTime * this.timeScale;
+    const current = this.capturePose(camera);
+    const previous = this.previousPose ?? current;
 
-    while (this.accumulator >= this.fixedDelta) {
+    // Offset of the first fixed step after the previous pose
+    let stepTime = this.fixedDelta - this.accumulator;
+    this.accumulator += frameTime;
+
+    while (this.isRecording && this.accumulator >= this.fixedDelta) {
       this.accumulator -= this.fixedDelta;
-      this.recordSample(camera);
+      const alpha = frameTime > 0 ? Math.min(1, stepTime / frameTime) : 1;
+      this.recordSample(this.interpolatePose(previous, current, alpha));
+      stepTime += this.fixedDelta;
     }
+
+    this.previousPose = current;
   }
 
-  private recordSample(camera: THREE.PerspectiveCamera): void {
+  private capturePose(camera: THREE.PerspectiveCamera): CameraPose {
+    return {
+      position: camera.position.clone(),
+      quaternion: camera.quaternion.clone(),
+      euler: camera.rotation.clone(),
+      fov: camera.fov
+    };
+  }
+
+  /**
+   * Pose at a fraction of the way between two render frames:
+   * position is lerped, rotation slerped and then unwrapped back onto
+   * the camera's own Euler branch so yaw past ±π stays continuous
+   */
+  private interpolatePose(a: CameraPose, b: CameraPose, alpha: number): CameraPose {
+    if (alpha >= 1) return b;
+
+    const quaternion = a.quaternion.clone().slerp(b.quaternion, alpha);
+    const euler = new THREE.Euler().setFromQuaternion(quaternion, 'YXZ');
+    const twoPi = Math.PI * 2;
+    const unwrap = (angle: number, from: number, to: number) => {
+      const reference = from + (to - from) * alpha;
+      return angle + twoPi * Math.round((reference - angle) / twoPi);
+    };
+    euler.set(
+      unwrap(euler.x, a.euler.x, b.euler.x),
+      unwrap(euler.y, a.euler.y, b.euler.y),
+      unwrap(euler.z, a.euler.z, b.euler.z),
+      'YXZ'
+    );
+
+    return {
+      position: a.position.clone().lerp(b.position, alpha),
+      quaternion,
+      euler,
+      fov: a.fov + (b.fov - a.fov) * alpha
+    };
+  }
+
+  private recordSample(pose: CameraPose): void {
+    const take = this.getActiveTake();
+    if (!take) return;
+
+    // Punch-out reached: merge and stop on our own
+    const punchOut = this.punch?.options.punchOut ?? null;
+    if (punchOut !== null && this.currentFrame > punchOut) {
+      this.stopRecording();
+      return;
+    }
+
+    // Record length limit reached
+    if (this.maxFrames !== null && this.currentFrame >= this.maxFrames) {
+      this.stopRecording();
+      return;
+    }
+
     const timeSeconds = this.currentFrame * this.fixedDelta;
     
     const sample: Sample = {
       frame: this.currentFrame,
       timeSeconds,
-      px: camera.position.x,
-      py: camera.position.y,
-      pz: camera.position.z,
-      rx: camera.rotation.x,
-      ry: camera.rotation.y,
-      rz: camera.rotation.z,
-      fov: camera.fov
+      px: pose.position.x,
+      py: pose.position.y,
+      pz: pose.position.z,
+      rx: pose.euler.x,
+      ry: pose.euler.y,
+      rz: pose.euler.z,
+      fov: pose.fov
     };
 
-    this.samples.push(sample);
+    // Disarmed channels come straight from the guide take
+    const guideValues = this.getGuideChannels(this.currentFrame);
+    if (guideValues) {
+      for (const channel of CHANNEL_KEYS) {
+        const value = guideValues[channel];
+        if (value !== undefined) {
+          sample[SAMPLE_FIELDS[channel]] = value;
+        }
+      }
+    }
+
+    take.samples.push(sample);
+    this.punch?.recorded.push(sample);
     this.currentFrame++;
   }
 
+  /**
+   * Splice recorded samples into the source over [punchIn, punchOut],
+   * crossfading over options.crossfadeFrames at each seam
+   */
+  private mergePunch(source: Sample[], recorded: Sample[], options: PunchInOptions): Sample[] {
+    const { punchIn, punchOut, crossfadeFrames } = options;
+    const replaceEnd = punchOut === null
+      ? punchIn + recorded.length - 1
+      : Math.min(punchOut, punchIn + recorded.length - 1);
+    const fade = Math.max(0, Math.floor(crossfadeFrames));
+
+    const merged: Sample[] = source.slice(0, punchIn);
+
+    for (let frame = punchIn; frame <= replaceEnd; frame++) {
+      const fresh = recorded[frame - punchIn];
+      const old = source[frame];
+
+      // Weight of the new recording ramps up after punch-in and down before punch-out
+      let weight = Math.min(1, (frame - punchIn + 1) / (fade + 1));
+      if (punchOut !== null && replaceEnd + 1 < source.length) {
+        weight = Math.min(weight, (replaceEnd - frame + 1) / (fade + 1));
+      }
+
+      merged.push(old && weight < 1 ? this.blendSamples(old, fresh, weight) : { ...fresh });
+    }
+
+    if (punchOut !== null) {
+      merged.push(...source.slice(replaceEnd + 1));
+    }
+
+    return merged.map((sample, frame) => ({
+      ...sample,
+      frame,
+      timeSeconds: frame * this.fixedDelta
+    }));
+  }
+
+  private blendSamples(a: Sample, b: Sample, t: number): Sample {
+    const lerp = (x: number, y: number) => x + (y - x) * t;
+    return {
+      frame: b.frame,
+      timeSeconds: b.timeSeconds,
+      px: lerp(a.px, b.px),
+      py: lerp(a.py, b.py),
+      pz: lerp(a.pz, b.pz),
+      rx: lerp(a.rx, b.rx),
+      ry: lerp(a.ry, b.ry),
+      rz: lerp(a.rz, b.rz),
+      fov: lerp(a.fov, b.fov)
+    };
+  }
+
+  private samplesFromChannelArrays(arrays: ChannelArrays): Sample[] {
+    return arrays.translation_x.map((_, frame) => ({
+      frame,
+      timeSeconds: frame * this.fixedDelta,
+      px: arrays.translation_x[frame],
+      py: arrays.translation_y[frame],
+      pz: arrays.translation_z[frame],
+      rx: arrays.rotation_3d_x[frame],
+      ry: arrays.rotation_3d_y[frame],
+      rz: arrays.rotation_3d_z[frame],
+      fov: arrays.fov[frame]
+    }));
+  }
+
   private buildChannelArrays(): void {
-    if (this.samples.length === 0) return;
+    const take = this.getActiveTake();
+    if (!take || take.samples.length === 0) return;
 
     const arrays: ChannelArrays = {
       translation_x: [],
@@ -107,7 +650,7 @@ export class Recorder {
       fov: []
     };
 
-    for (const sample of this.samples) {
+    for (const sample of take.samples) {
       arrays.translation_x.push(sample.px);
       arrays.translation_y.push(sample.py);
       arrays.translation_z.push(sample.pz);
@@ -117,8 +660,8 @@ export class Recorder {
       arrays.fov.push(sample.fov);
     }
 
-    this.channelArrays = arrays;
-    this.originalChannelArrays = this.nonDestructiveCopy(arrays);
+    take.channelArrays = arrays;
+    take.originalChannelArrays = this.nonDestructiveCopy(arrays);
   }
 
   private nonDestructiveCopy(arrays: ChannelArrays): ChannelArrays {
@@ -134,83 +677,167 @@ export class Recorder {
   }
 
   /**
-   * Apply smoothing to the recorded data
+   * Apply smoothing to the active take
    */
-  applySmoothing(options: SmoothingOptions): void {
-    if (!this.channelArrays) {
+  applySmoothing(options: SmoothingOptions, mergeKey?: string): void {
+    const take = this.getActiveTake();
+    if (!take?.channelArrays) {
       console.log('No channel arrays to smooth');
       return;
     }
 
     console.log('Applying smoothing:', options);
 
+    // A live re-apply replaces the previous one rather than smoothing its result
+    const base = this.liveEditBase(take, mergeKey);
+    if (base) {
+      take.channelArrays = this.nonDestructiveCopy(base);
+    }
+
     // Store original if non-destructive
-    if (options.nonDestructive && !this.originalChannelArrays) {
-      this.originalChannelArrays = this.nonDestructiveCopy(this.channelArrays);
+    if (options.nonDestructive && !take.originalChannelArrays) {
+      take.originalChannelArrays = this.nonDestructiveCopy(take.channelArrays);
     }
 
     // Apply smoothing for each iteration
     for (let i = 0; i < options.iterations; i++) {
-      this.smoothChannelArrays(options.windowSize);
+      this.smoothChannelArrays(take.channelArrays, options);
     }
 
+    take.smoothingOptions = { ...options };
+    this.pushHistory(take, this.describeSmoothing(options), mergeKey);
     console.log('Smoothing applied successfully');
   }
 
-  private smoothChannelArrays(windowSize: number): void {
-    if (!this.channelArrays) return;
-
-    const channels: (keyof ChannelArrays)[] = [
-      'translation_x', 'translation_y', 'translation_z',
-      'rotation_3d_x', 'rotation_3d_y', 'rotation_3d_z', 'fov'
-    ];
-
-    for (const channel of channels) {
-      this.channelArrays[channel] = this.applyMovingAverage(
-        this.channelArrays[channel],
-        windowSize
-      );
+  private smoothChannelArrays(arrays: ChannelArrays, options: SmoothingOptions): void {
+    const length = arrays.translation_x.length;
+    const weights = options.range
+      ? rangeWeights(length, options.range)
+      : null;
+    const pins = pinWeights(length, options);
+    const sampleRate = 1 / this.fixedDelta;
+    const quaternionRotation = (options.rotationSpace ?? 'quaternion') === 'quaternion';
+    const rotationResults = quaternionRotation ? smoothRotations(arrays, options, sampleRate) : {};
+
+    for (const channel of CHANNEL_KEYS) {
+      const isRotation = channel.startsWith('rotation_');
+      // Unwrap first so a ±π crossing isn't averaged into a spin
+      const source = isRotation ? unwrapAngles(arrays[channel]) : arrays[channel];
+      let smoothed: number[];
+      if (isRotation && quaternionRotation) {
+        const result = rotationResults[channel];
+        if (!result) continue;
+        smoothed = result;
+      } else {
+        const channelOptions = optionsForChannel(options, channel);
+        if (!channelOptions) continue;
+        smoothed = smoothSeries(source, channelOptions, sampleRate);
+      }
+      // Pinned frames keep their exact values and ease into the smoothed path
+      if (pins) {
+        smoothed = blendByWeights(source, smoothed, pins.map(weight => 1 - weight));
+      }
+      // Range-limited smoothing fades back into the untouched frames
+      arrays[channel] = weights ? blendByWeights(source, smoothed, weights) : smoothed;
     }
   }
 
-  private applyMovingAverage(data: number[], windowSize: number): number[] {
-    if (windowSize <= 1) return [...data];
-    
-    const result: number[] = [];
-    const halfWindow = Math.floor(windowSize / 2);
-
-    for (let i = 0; i < data.length; i++) {
-      let sum = 0;
-      let count = 0;
+  private describeSmoothing(options: SmoothingOptions): string {
+    const range = options.range ? ` @ ${options.range.frameStart}–${options.range.frameEnd}` : '';
+    switch (options.method) {
+      case 'gaussian':
+        return `Gaussian (window ${options.windowSize} × ${options.iterations})${range}`;
+      case 'savitzkyGolay':
+        return `Savitzky–Golay (window ${options.windowSize}, order ${options.polynomialOrder ?? 2})${range}`;
+      case 'oneEuro':
+        return `One-Euro (cutoff ${options.minCutoff ?? 1} Hz, beta ${options.beta ?? 0.05})${range}`;
+      default:
+        return `Smooth (window ${options.windowSize} × ${options.iterations})${range}`;
+    }
+  }
 
-      // Calculate centered moving average
-      for (let j = Math.max(0, i - halfWindow); j <= Math.min(data.length - 1, i + halfWindow); j++) {
-        sum += data[j];
-        count++;
-      }
+  /**
+   * Revert to the data before smoothing, i.e. the recording or the latest
+   * motion limiter pass. A live revert (mergeKey set) only takes back the
+   * live edit group, keeping earlier edits.
+   */
+  revertSmoothing(mergeKey?: string): void {
+    const take = this.getActiveTake();
+    if (!take) return;
+
+    if (mergeKey) {
+      // Drop the live edit group: back to the entry before it, as if it never happened
+      if (take.historyIndex === 0 || !this.liveEditBase(take, mergeKey)) return;
+      this.restoreHistory(take, take.historyIndex - 1);
+      take.history = take.history.slice(0, take.historyIndex + 1);
+      return;
+    }
 
-      result.push(sum / count);
+    if (take.originalChannelArrays) {
+      take.channelArrays = this.nonDestructiveCopy(take.originalChannelArrays);
+      take.smoothingOptions = null;
+      this.pushHistory(take, 'Revert to original');
     }
+  }
 
-    return result;
+  /**
+   * Clamp velocity, acceleration and jerk on the active take.
+   * Returns the frames whose per-frame delta was changed.
+   * The limited path becomes what Revert returns to, so reverting later
+   * smoothing keeps the limits (smoothing applied before it stays baked in).
+   */
+  applyMotionLimits(limits: MotionLimits): number[] {
+    const take = this.getActiveTake();
+    if (this.isRecording || !take?.channelArrays) return [];
+
+    const { arrays, clampedFrames } = limitMotion(take.channelArrays, limits, 1 / this.fixedDelta);
+    if (clampedFrames.length === 0) return [];
+
+    take.channelArrays = arrays;
+    take.originalChannelArrays = this.nonDestructiveCopy(arrays);
+    take.smoothingOptions = null;
+    this.pushHistory(take, `Limit motion (${clampedFrames.length} frames)`);
+    return clampedFrames;
   }
 
   /**
-   * Revert to original data before smoothing
+   * Keep only frames [frameStart, frameEnd] of the active take
    */
-  revertSmoothing(): void {
-    if (this.originalChannelArrays) {
-      this.channelArrays = this.nonDestructiveCopy(this.originalChannelArrays);
-    }
+  trim(frameStart: number, frameEnd: number): void {
+    const take = this.getActiveTake();
+    if (this.isRecording || !take || take.samples.length === 0) return;
+
+    const start = Math.max(0, Math.min(Math.floor(frameStart), take.samples.length - 1));
+    const end = Math.max(start, Math.min(Math.floor(frameEnd), take.samples.length - 1));
+    if (start === 0 && end === take.samples.length - 1) return;
+
+    const slice = (arrays: ChannelArrays): ChannelArrays => {
+      const result = this.nonDestructiveCopy(arrays);
+      for (const channel of CHANNEL_KEYS) {
+        result[channel] = result[channel].slice(start, end + 1);
+      }
+      return result;
+    };
+
+    take.samples = take.samples.slice(start, end + 1).map((sample, frame) => ({
+      ...sample,
+      frame,
+      timeSeconds: frame * this.fixedDelta
+    }));
+    if (take.channelArrays) take.channelArrays = slice(take.channelArrays);
+    if (take.originalChannelArrays) take.originalChannelArrays = slice(take.originalChannelArrays);
+    this.pushHistory(take, `Trim ${start}–${end}`);
   }
 
   /**
-   * Clear all recorded data
+   * Clear all takes
    */
   clear(): void {
-    this.samples = [];
-    this.channelArrays = null;
-    this.originalChannelArrays = null;
+    this.takes = [];
+    this.activeTakeId = null;
+    this.punch = null;
+    this.guide = null;
+    this.previousPose = null;
     this.isRecording = false;
     this.currentFrame = 0;
   }
@@ -219,35 +846,53 @@ export class Recorder {
    * Get a sample at a specific frame for playback
    */
   getSampleAtFrame(frame: number): Sample | null {
-    if (frame < 0 || frame >= this.samples.length) return null;
-    return this.samples[frame];
+    const take = this.getActiveTake();
+    if (!take || frame < 0 || frame >= take.samples.length) return null;
+    return take.samples[frame];
   }
 
   /**
-   * Get camera state from channel arrays at a specific frame
+   * Get camera state from channel arrays at a specific frame,
+   * including the take's shake layer unless withShake is false
    */
-  getCameraStateAtFrame(frame: number): {
+  getCameraStateAtFrame(frame: number, withShake = true): {
     position: THREE.Vector3;
     rotation: THREE.Euler;
     fov: number;
   } | null {
-    if (!this.channelArrays || frame < 0 || frame >= this.channelArrays.translation_x.length) {
+    const take = this.getActiveTake();
+    const arrays = take?.channelArrays;
+    if (!arrays || frame < 0 || frame >= arrays.translation_x.length) {
       return null;
     }
 
-    return {
-      position: new THREE.Vector3(
-        this.channelArrays.translation_x[frame],
-        this.channelArrays.translation_y[frame],
-        this.channelArrays.translation_z[frame]
-      ),
-      rotation: new THREE.Euler(
-        this.channelArrays.rotation_3d_x[frame],
-        this.channelArrays.rotation_3d_y[frame],
-        this.channelArrays.rotation_3d_z[frame],
+    const position = new THREE.Vector3(
+      arrays.translation_x[frame],
+      arrays.translation_y[frame],
+      arrays.translation_z[frame]
+    );
+    const rotation = new THREE.Euler(
+      arrays.rotation_3d_x[frame],
+      arrays.rotation_3d_y[frame],
+      arrays.rotation_3d_z[frame],
+      'YXZ'
+    );
+
+    if (withShake && take.shake?.enabled) {
+      const offset = shakeOffsetAt(frame * this.fixedDelta, take.shake);
+      position.add(offset.position.applyEuler(rotation));
+      rotation.set(
+        rotation.x + offset.rotation.x,
+        rotation.y + offset.rotation.y,
+        rotation.z + offset.rotation.z,
         'YXZ'
-      ),
-      fov: this.channelArrays.fov[frame]
+      );
+    }
+
+    return {
+      position,
+      rotation,
+      fov: arrays.fov[frame]
     };
   }
 }
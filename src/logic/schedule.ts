@@ -0,0 +1,247 @@
+/**
+ * Parsing and evaluating Deforum schedule strings, e.g. "0:(0), 4: (0.56)"
+ * or "0: (1.0025+0.002*sin(1.25*3.14*t/30))"
+ */
+
+export interface ScheduleKey {
+  frame: number;
+  expression: string;
+}
+
+/**
+ * Split a schedule string into keys. Expressions may contain spaces, commas
+ * and nested parentheses.
+ */
+export function parseSchedule(text: string): ScheduleKey[] {
+  const keys: ScheduleKey[] = [];
+  const keyPattern = /\s*(\d+)\s*:\s*\(/y;
+  let i = 0;
+
+  while (i < text.length) {
+    keyPattern.lastIndex = i;
+    const match = keyPattern.exec(text);
+    if (!match) {
+      throw new Error(`Unexpected text in schedule at position ${i}: "${text.slice(i, i + 20)}"`);
+    }
+
+    // Find the parenthesis closing this key's value
+    let depth = 1;
+    let end = keyPattern.lastIndex;
+    while (end < text.length && depth > 0) {
+      if (text[end] === '(') depth++;
+      if (text[end] === ')') depth--;
+      end++;
+    }
+    if (depth > 0) {
+      throw new Error(`Unclosed parenthesis in schedule key ${match[1]}`);
+    }
+
+    keys.push({ frame: Number(match[1]), expression: text.slice(keyPattern.lastIndex, end - 1).trim() });
+
+    // Skip the separator
+    i = end;
+    while (i < text.length && /[\s,]/.test(text[i])) i++;
+  }
+
+  return keys.sort((a, b) => a.frame - b.frame);
+}
+
+/**
+ * Move every key earlier by offset frames, so a schedule exported from
+ * frame offset on starts at frame 0. Keys that would land before 0 collapse
+ * into one key at 0 holding the last of them.
+ */
+export function shiftSchedule(text: string, offset: number): string {
+  if (offset === 0) return text;
+  const keys = parseSchedule(text).map(key => ({ ...key, frame: key.frame - offset }));
+  const firstKept = keys.findIndex(key => key.frame >= 0);
+  const kept = firstKept === -1 ? keys.slice(-1) : keys.slice(firstKept);
+  const before = firstKept === -1 ? null : keys[firstKept - 1];
+  if (before && kept[0].frame > 0) kept.unshift(before);
+  return kept.map(key => `${Math.max(0, key.frame)}:(${key.expression})`).join(', ');
+}
+
+/**
+ * Per-frame values the way Deforum fills them in: numeric keys are linearly
+ * interpolated, keys whose expression uses t are evaluated on every frame up
+ * to the next key, and the first/last values are held outside the keys
+ */
+export function evaluateSchedule(text: string, frameCount: number): number[] {
+  const keys = parseSchedule(text);
+  const values = new Array<number>(frameCount).fill(0);
+  if (keys.length === 0 || frameCount <= 0) return values;
+
+  const variables = { max_f: frameCount };
+  const isDynamic = (key: ScheduleKey) => /\bt\b/.test(key.expression);
+  const constantAt = (key: ScheduleKey) => evaluateExpression(key.expression, { ...variables, t: key.frame });
+
+  // Last key at or before the frame, -1 before the first key
+  let index = -1;
+  for (let frame = 0; frame < frameCount; frame++) {
+    while (index + 1 < keys.length && keys[index + 1].frame <= frame) index++;
+    const current = keys[Math.max(0, index)];
+    const next = keys[index + 1];
+
+    if (index === -1) {
+      values[frame] = isDynamic(current) ? evaluateExpression(current.expression, { ...variables, t: frame }) : constantAt(current);
+    } else if (isDynamic(current)) {
+      values[frame] = evaluateExpression(current.expression, { ...variables, t: frame });
+    } else if (next && !isDynamic(next)) {
+      const alpha = (frame - current.frame) / (next.frame - current.frame);
+      values[frame] = constantAt(current) + (constantAt(next) - constantAt(current)) * alpha;
+    } else {
+      values[frame] = constantAt(current);
+    }
+  }
+
+  return values;
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  exp: Math.exp,
+  log: Math.log,
+  log10: Math.log10,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+  where: (condition, a, b) => (condition ? a : b)
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+/**
+ * Evaluate an arithmetic expression: numbers, + - * / % and ** (or ^),
+ * comparisons, parentheses, Math functions and named variables such as t
+ */
+export function evaluateExpression(expression: string, variables: Record<string, number> = {}): number {
+  const tokens = expression.match(/\d*\.?\d+(?:e[-+]?\d+)?|\d+\.|[A-Za-z_]\w*|\*\*|[<>=!]=|[-+*/%^(),<>]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position++];
+    if (expected !== undefined && token !== expected) {
+      throw new Error(`Expected "${expected}" in "${expression}"`);
+    }
+    return token;
+  };
+
+  // Precedence climbing, lowest first
+  const comparison = (): number => {
+    let value = additive();
+    while (['<', '>', '<=', '>=', '==', '!='].includes(peek())) {
+      const operator = take();
+      const right = additive();
+      value = Number(
+        operator === '<' ? value < right :
+        operator === '>' ? value > right :
+        operator === '<=' ? value <= right :
+        operator === '>=' ? value >= right :
+        operator === '==' ? value === right :
+        value !== right
+      );
+    }
+    return value;
+  };
+
+  const additive = (): number => {
+    let value = multiplicative();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + multiplicative() : value - multiplicative();
+    }
+    return value;
+  };
+
+  const multiplicative = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = unary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const unary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -unary();
+    }
+    if (peek() === '+') {
+      take();
+      return unary();
+    }
+    return power();
+  };
+
+  // Right-associative, binds tighter than unary minus on its left
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '**' || peek() === '^') {
+      take();
+      return Math.pow(base, unary());
+    }
+    return base;
+  };
+
+  const primary = (): number => {
+    const token = take();
+    if (token === undefined) {
+      throw new Error(`Unexpected end of "${expression}"`);
+    }
+    if (token === '(') {
+      const value = comparison();
+      take(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) {
+      return Number(token);
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      const name = token.toLowerCase();
+      if (peek() === '(') {
+        const fn = FUNCTIONS[name];
+        if (!fn) throw new Error(`Unknown function "${token}" in "${expression}"`);
+        take('(');
+        const args: number[] = [];
+        if (peek() !== ')') {
+          args.push(comparison());
+          while (peek() === ',') {
+            take();
+            args.push(comparison());
+          }
+        }
+        take(')');
+        return fn(...args);
+      }
+      if (token in variables) return variables[token];
+      if (name in CONSTANTS) return CONSTANTS[name];
+      throw new Error(`Unknown variable "${token}" in "${expression}"`);
+    }
+    throw new Error(`Unexpected "${token}" in "${expression}"`);
+  };
+
+  const value = comparison();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in "${expression}"`);
+  }
+  return value;
+}
@@ -0,0 +1,146 @@
+/**
+ * Reading and patching Deforum settings files
+ */
+
+import { SessionSettings } from '../types';
+
+export type DeforumSettings = Record<string, unknown>;
+
+/**
+ * Parse a Deforum settings file (JSON object, usually saved as .txt)
+ */
+export function parseDeforumSettings(text: string): DeforumSettings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Settings file is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Settings file is not a JSON object');
+  }
+  return parsed as DeforumSettings;
+}
+
+/**
+ * Pull the values that shape a pilot session out of Deforum settings
+ */
+export function readSessionSettings(settings: DeforumSettings): SessionSettings {
+  const positive = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+  };
+
+  return {
+    fps: positive(settings.fps),
+    width: positive(settings.W),
+    height: positive(settings.H),
+    fov: positive(firstScheduleValue(settings.fov_schedule)),
+    near: positive(firstScheduleValue(settings.near_schedule)),
+    far: positive(firstScheduleValue(settings.far_schedule)),
+    maxFrames: positive(settings.max_frames)
+  };
+}
+
+/**
+ * Value of the first key in a schedule like "0: (70)", when it is a plain number
+ */
+function firstScheduleValue(schedule: unknown): number | undefined {
+  if (typeof schedule !== 'string') return undefined;
+  const match = /^\s*\d+\s*:\s*\(\s*([-+]?[\d.]+(?:e[-+]?\d+)?)\s*\)/i.exec(schedule);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Replace the values of top-level keys in a settings file, leaving every
+ * other byte as it was (number formatting, key order, indentation).
+ * Keys missing from the file are appended at the end.
+ */
+export function replaceTopLevelValues(text: string, values: Record<string, string | number>): string {
+  parseDeforumSettings(text);
+
+  const spans: { start: number; end: number; key: string }[] = [];
+  let depth = 0;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      const end = skipString(text, i);
+      if (depth === 1) {
+        const colon = skipWhitespace(text, end);
+        if (text[colon] === ':') {
+          const key = JSON.parse(text.slice(i, end)) as string;
+          const valueStart = skipWhitespace(text, colon + 1);
+          const valueEnd = skipValue(text, valueStart);
+          if (key in values) spans.push({ start: valueStart, end: valueEnd, key });
+          i = valueEnd;
+          continue;
+        }
+      }
+      i = end;
+      continue;
+    }
+    if (char === '{' || char === '[') depth++;
+    if (char === '}' || char === ']') depth--;
+    i++;
+  }
+
+  let result = text;
+  // Back to front so earlier offsets stay valid
+  for (const span of [...spans].reverse()) {
+    result = result.slice(0, span.start) + JSON.stringify(values[span.key]) + result.slice(span.end);
+  }
+
+  const found = new Set(spans.map(span => span.key));
+  const missing = Object.keys(values).filter(key => !found.has(key));
+  if (missing.length > 0) {
+    const close = result.lastIndexOf('}');
+    const body = result.slice(0, close).trimEnd();
+    const indent = /\n([ \t]+)"/.exec(result)?.[1] ?? '    ';
+    const separator = body.endsWith('{') ? '' : ',';
+    const added = missing.map(key => `\n${indent}${JSON.stringify(key)}: ${JSON.stringify(values[key])}`).join(',');
+    result = `${body}${separator}${added}\n${result.slice(close)}`;
+  }
+
+  return result;
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+/**
+ * Index just past the string starting at i
+ */
+function skipString(text: string, i: number): number {
+  i++;
+  while (i < text.length && text[i] !== '"') {
+    i += text[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Index just past the JSON value starting at i
+ */
+function skipValue(text: string, i: number): number {
+  if (text[i] === '"') return skipString(text, i);
+  if (text[i] === '{' || text[i] === '[') {
+    let depth = 0;
+    while (i < text.length) {
+      if (text[i] === '"') {
+        i = skipString(text, i);
+        continue;
+      }
+      if (text[i] === '{' || text[i] === '[') depth++;
+      if (text[i] === '}' || text[i] === ']') depth--;
+      i++;
+      if (depth === 0) break;
+    }
+    return i;
+  }
+  // Number, true, false or null
+  while (i < text.length && !/[\s,}\]]/.test(text[i])) i++;
+  return i;
+}
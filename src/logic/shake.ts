@@ -0,0 +1,100 @@
+/**
+ * Procedural handheld shake layered on top of a take
+ */
+
+import { ChannelArrays, ShakeOptions } from '../types';
+import * as THREE from 'three';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+export interface ShakeOffset {
+  position: THREE.Vector3; // Camera-local
+  rotation: THREE.Vector3; // Radians added to pitch/yaw/roll
+}
+
+/**
+ * Shake offset at a point in time. Each axis reads its own seeded
+ * gradient-noise stream, two octaves, scaled by amplitude and axis weight.
+ */
+export function shakeOffsetAt(timeSeconds: number, options: ShakeOptions): ShakeOffset {
+  const x = timeSeconds * options.frequency;
+  const axis = (index: number, weight: number) =>
+    weight === 0 ? 0 : weight * fractalNoise(x, options.seed * 131 + index * 1013);
+
+  const { weights } = options;
+  return {
+    position: new THREE.Vector3(
+      axis(0, weights.x),
+      axis(1, weights.y),
+      axis(2, weights.z)
+    ).multiplyScalar(options.translationAmplitude),
+    rotation: new THREE.Vector3(
+      axis(3, weights.pitch),
+      axis(4, weights.yaw),
+      axis(5, weights.roll)
+    ).multiplyScalar(options.rotationAmplitude * DEG_TO_RAD)
+  };
+}
+
+/**
+ * Bake the shake layer into a copy of the channel arrays
+ */
+export function applyShake(arrays: ChannelArrays, options: ShakeOptions, fps: number): ChannelArrays {
+  const result: ChannelArrays = {
+    translation_x: [...arrays.translation_x],
+    translation_y: [...arrays.translation_y],
+    translation_z: [...arrays.translation_z],
+    rotation_3d_x: [...arrays.rotation_3d_x],
+    rotation_3d_y: [...arrays.rotation_3d_y],
+    rotation_3d_z: [...arrays.rotation_3d_z],
+    fov: [...arrays.fov]
+  };
+
+  const euler = new THREE.Euler();
+  for (let frame = 0; frame < arrays.translation_x.length; frame++) {
+    const offset = shakeOffsetAt(frame / fps, options);
+
+    // Translation shake follows the camera, like a hand holding it
+    euler.set(arrays.rotation_3d_x[frame], arrays.rotation_3d_y[frame], arrays.rotation_3d_z[frame], 'YXZ');
+    offset.position.applyEuler(euler);
+
+    result.translation_x[frame] += offset.position.x;
+    result.translation_y[frame] += offset.position.y;
+    result.translation_z[frame] += offset.position.z;
+    result.rotation_3d_x[frame] += offset.rotation.x;
+    result.rotation_3d_y[frame] += offset.rotation.y;
+    result.rotation_3d_z[frame] += offset.rotation.z;
+  }
+
+  return result;
+}
+
+/**
+ * Two octaves of 1D gradient noise, roughly in [-1, 1]
+ */
+function fractalNoise(x: number, seed: number): number {
+  return (gradientNoise(x, seed) + 0.5 * gradientNoise(x * 2.03, seed + 7919)) / 0.75;
+}
+
+/**
+ * 1D Perlin noise: random slopes at integer points, quintic blend between them
+ */
+function gradientNoise(x: number, seed: number): number {
+  const i0 = Math.floor(x);
+  const t = x - i0;
+  const g0 = gradient(i0, seed);
+  const g1 = gradient(i0 + 1, seed);
+  const fade = t * t * t * (t * (t * 6 - 15) + 10);
+  // Perlin 1D peaks at ±0.5; scale to ±1
+  return 2 * (g0 * t + (g1 * (t - 1) - g0 * t) * fade);
+}
+
+/**
+ * Deterministic slope in [-1, 1] for an integer lattice point
+ */
+function gradient(i: number, seed: number): number {
+  let h = Math.imul(i, 374761393) ^ Math.imul(seed, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
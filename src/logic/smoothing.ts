@@ -0,0 +1,458 @@
+/**
+ * One-dimensional filters used to smooth recorded channels
+ */
+
+import { ChannelArrays, SmoothingBoundary, SmoothingGroup, SmoothingOptions, SmoothingRange } from '../types';
+import * as THREE from 'three';
+
+export const SMOOTHING_GROUP_OF: Record<keyof ChannelArrays, SmoothingGroup> = {
+  translation_x: 'translation',
+  translation_y: 'translation',
+  translation_z: 'translation',
+  rotation_3d_x: 'pitchYaw',
+  rotation_3d_y: 'pitchYaw',
+  rotation_3d_z: 'roll',
+  fov: 'fov'
+};
+
+/**
+ * Options for one channel with its group strength folded in:
+ * window-based filters scale the window, One-Euro lowers its cutoff.
+ * Returns null when the channel should be left untouched.
+ */
+export function optionsForChannel(options: SmoothingOptions, channel: keyof ChannelArrays): SmoothingOptions | null {
+  const strength = options.groupStrengths?.[SMOOTHING_GROUP_OF[channel]] ?? 1;
+  if (strength <= 0) return null;
+  if (strength === 1) return options;
+
+  const windowSize = Math.max(1, Math.round(1 + (options.windowSize - 1) * strength));
+  return {
+    ...options,
+    windowSize,
+    gaussianSigma: options.gaussianSigma !== undefined ? options.gaussianSigma * strength : undefined,
+    minCutoff: (options.minCutoff ?? 1.0) / strength
+  };
+}
+
+/**
+ * Remove 2π jumps so consecutive angles never differ by more than π
+ */
+export function unwrapAngles(angles: number[]): number[] {
+  const twoPi = Math.PI * 2;
+  const result: number[] = [];
+  for (let i = 0; i < angles.length; i++) {
+    if (i === 0) {
+      result.push(angles[0]);
+      continue;
+    }
+    const previous = result[i - 1];
+    result.push(angles[i] + twoPi * Math.round((previous - angles[i]) / twoPi));
+  }
+  return result;
+}
+
+/**
+ * Smooth orientation on unit quaternions instead of per Euler axis.
+ * Quaternions are flipped onto one hemisphere, each component is filtered
+ * with the chosen method (a weighted chordal mean for the window filters)
+ * and renormalized. The result is converted back to YXZ Euler, unwrapped
+ * and shifted onto the same 2π branch as the input.
+ *
+ * Each group is filtered at its own strength: pitch/yaw come from a pass
+ * at the pitch/yaw strength and roll from a pass at the roll strength
+ * (one pass when they match). A group at strength 0 keeps its original
+ * channels.
+ */
+export function smoothRotations(
+  arrays: ChannelArrays,
+  options: SmoothingOptions,
+  sampleRate: number
+): Partial<Record<keyof ChannelArrays, number[]>> {
+  const pitchYawOptions = optionsForChannel(options, 'rotation_3d_x');
+  const rollOptions = optionsForChannel(options, 'rotation_3d_z');
+  if (!pitchYawOptions && !rollOptions) return {};
+
+  const length = arrays.rotation_3d_x.length;
+  const components: number[][] = [[], [], [], []];
+  const euler = new THREE.Euler();
+  const quaternion = new THREE.Quaternion();
+  let previous: THREE.Quaternion | null = null;
+
+  for (let i = 0; i < length; i++) {
+    euler.set(arrays.rotation_3d_x[i], arrays.rotation_3d_y[i], arrays.rotation_3d_z[i], 'YXZ');
+    quaternion.setFromEuler(euler);
+    // q and -q are the same rotation; keep neighbours on one hemisphere
+    if (previous && previous.dot(quaternion) < 0) {
+      quaternion.set(-quaternion.x, -quaternion.y, -quaternion.z, -quaternion.w);
+    }
+    components[0].push(quaternion.x);
+    components[1].push(quaternion.y);
+    components[2].push(quaternion.z);
+    components[3].push(quaternion.w);
+    previous = quaternion.clone();
+  }
+
+  // Filter the quaternions and return the path as YXZ Euler angles
+  const filterPass = (filterOptions: SmoothingOptions) => {
+    const filtered = components.map(component => smoothSeries(component, filterOptions, sampleRate));
+    const x: number[] = [];
+    const y: number[] = [];
+    const z: number[] = [];
+    for (let i = 0; i < length; i++) {
+      quaternion.set(filtered[0][i], filtered[1][i], filtered[2][i], filtered[3][i]).normalize();
+      euler.setFromQuaternion(quaternion, 'YXZ');
+      x.push(euler.x);
+      y.push(euler.y);
+      z.push(euler.z);
+    }
+    return { x, y, z };
+  };
+
+  const sameStrength = (options.groupStrengths?.pitchYaw ?? 1) === (options.groupStrengths?.roll ?? 1);
+  const pitchYawPass = pitchYawOptions ? filterPass(pitchYawOptions) : null;
+  const rollPass = rollOptions ? (sameStrength && pitchYawPass ? pitchYawPass : filterPass(rollOptions)) : null;
+
+  const result: Partial<Record<keyof ChannelArrays, number[]>> = {};
+  if (pitchYawPass) {
+    result.rotation_3d_x = alignBranch(unwrapAngles(pitchYawPass.x), arrays.rotation_3d_x);
+    result.rotation_3d_y = alignBranch(unwrapAngles(pitchYawPass.y), arrays.rotation_3d_y);
+  }
+  if (rollPass) {
+    result.rotation_3d_z = alignBranch(unwrapAngles(rollPass.z), arrays.rotation_3d_z);
+  }
+  return result;
+}
+
+/**
+ * Shift an unwrapped series by a whole number of turns to start near the reference
+ */
+function alignBranch(angles: number[], reference: number[]): number[] {
+  if (angles.length === 0) return angles;
+  const twoPi = Math.PI * 2;
+  const shift = twoPi * Math.round((reference[0] - angles[0]) / twoPi);
+  return shift === 0 ? angles : angles.map(angle => angle + shift);
+}
+
+/**
+ * Per-frame blend weight of the smoothed result: 1 inside the range,
+ * easing to 0 across the feather on either side
+ */
+export function rangeWeights(length: number, range: SmoothingRange): number[] {
+  const feather = Math.max(0, Math.floor(range.feather));
+  const start = Math.max(0, Math.floor(range.frameStart));
+  const end = Math.min(length - 1, Math.floor(range.frameEnd));
+
+  const weights: number[] = [];
+  for (let frame = 0; frame < length; frame++) {
+    let distance = 0;
+    if (frame < start) distance = start - frame;
+    else if (frame > end) distance = frame - end;
+
+    if (distance === 0) {
+      weights.push(1);
+    } else if (distance > feather) {
+      weights.push(0);
+    } else {
+      // Smoothstep so the seam has no kink
+      const t = 1 - distance / (feather + 1);
+      weights.push(t * t * (3 - 2 * t));
+    }
+  }
+  return weights;
+}
+
+/**
+ * Mix original and smoothed data per frame, weight 1 = fully smoothed
+ */
+export function blendByWeights(original: number[], smoothed: number[], weights: number[]): number[] {
+  return original.map((value, i) => value + (smoothed[i] - value) * weights[i]);
+}
+
+/**
+ * Per-frame weight of the original data that pins the start, end and anchor
+ * frames: 1 on pinned frames, easing to 0 across the pin feather
+ */
+export function pinWeights(length: number, options: SmoothingOptions): number[] | null {
+  const pinned = new Set<number>();
+  const pinStart = Math.max(0, Math.floor(options.pinStartFrames ?? 0));
+  const pinEnd = Math.max(0, Math.floor(options.pinEndFrames ?? 0));
+  for (let frame = 0; frame < Math.min(pinStart, length); frame++) pinned.add(frame);
+  for (let frame = Math.max(0, length - pinEnd); frame < length; frame++) pinned.add(frame);
+  for (const frame of options.anchorFrames ?? []) {
+    if (frame >= 0 && frame < length) pinned.add(Math.floor(frame));
+  }
+  if (pinned.size === 0) return null;
+
+  const feather = Math.max(0, Math.floor(options.pinFeather ?? options.windowSize / 2));
+  const weights = new Array(length).fill(0);
+  for (const frame of pinned) {
+    for (let offset = -feather; offset <= feather; offset++) {
+      const i = frame + offset;
+      if (i < 0 || i >= length) continue;
+      // Smoothstep falloff so the correction has no kink
+      const t = 1 - Math.abs(offset) / (feather + 1);
+      weights[i] = Math.max(weights[i], t * t * (3 - 2 * t));
+    }
+  }
+  return weights;
+}
+
+/**
+ * Extend data by `pad` frames on both ends so centered windows stay full
+ */
+function padSeries(data: number[], pad: number, boundary: SmoothingBoundary): number[] {
+  const n = data.length;
+  const before: number[] = [];
+  const after: number[] = [];
+  for (let k = pad; k >= 1; k--) {
+    const i = Math.min(k, n - 1);
+    before.push(boundary === 'pointReflect' ? 2 * data[0] - data[i] : data[i]);
+  }
+  for (let k = 1; k <= pad; k++) {
+    const i = Math.max(n - 1 - k, 0);
+    after.push(boundary === 'pointReflect' ? 2 * data[n - 1] - data[i] : data[i]);
+  }
+  return [...before, ...data, ...after];
+}
+
+/**
+ * Smooth one channel with the method selected in options,
+ * padding the ends first when a reflecting boundary is chosen
+ */
+export function smoothSeries(data: number[], options: SmoothingOptions, sampleRate: number): number[] {
+  const boundary = options.boundary ?? 'shrink';
+  // One-Euro is causal and already starts on the first sample, so it is never padded
+  if (boundary === 'shrink' || options.method === 'oneEuro' || data.length < 2) {
+    return filterSeries(data, options, sampleRate);
+  }
+
+  const pad = Math.floor(options.windowSize / 2);
+  const padded = padSeries(data, pad, boundary);
+  return filterSeries(padded, options, sampleRate).slice(pad, pad + data.length);
+}
+
+function filterSeries(data: number[], options: SmoothingOptions, sampleRate: number): number[] {
+  switch (options.method) {
+    case 'gaussian':
+      return gaussianFilter(data, options.windowSize, options.gaussianSigma);
+    case 'savitzkyGolay':
+      return savitzkyGolayFilter(data, options.windowSize, options.polynomialOrder ?? 2);
+    case 'oneEuro':
+      return oneEuroFilter(
+        data,
+        sampleRate,
+        options.minCutoff ?? 1.0,
+        options.beta ?? 0.05,
+        options.derivativeCutoff ?? 1.0
+      );
+    case 'average':
+    default:
+      return movingAverage(data, options.windowSize);
+  }
+}
+
+/**
+ * Centered box filter; the window shrinks at the edges
+ */
+export function movingAverage(data: number[], windowSize: number): number[] {
+  if (windowSize <= 1) return [...data];
+
+  const result: number[] = [];
+  const halfWindow = Math.floor(windowSize / 2);
+
+  for (let i = 0; i < data.length; i++) {
+    let sum = 0;
+    let count = 0;
+
+    // Calculate centered moving average
+    for (let j = Math.max(0, i - halfWindow); j <= Math.min(data.length - 1, i + halfWindow); j++) {
+      sum += data[j];
+      count++;
+    }
+
+    result.push(sum / count);
+  }
+
+  return result;
+}
+
+/**
+ * Gaussian-weighted average over windowSize frames.
+ * Sigma defaults to a sixth of the window so the kernel covers ±3σ.
+ */
+export function gaussianFilter(data: number[], windowSize: number, sigma?: number): number[] {
+  if (windowSize <= 1) return [...data];
+
+  const halfWindow = Math.floor(windowSize / 2);
+  const s = Math.max(0.1, sigma ?? windowSize / 6);
+  const kernel: number[] = [];
+  for (let k = -halfWindow; k <= halfWindow; k++) {
+    kernel.push(Math.exp(-(k * k) / (2 * s * s)));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    let sum = 0;
+    let weightSum = 0;
+
+    // Renormalize over the part of the kernel inside the data
+    for (let k = -halfWindow; k <= halfWindow; k++) {
+      const j = i + k;
+      if (j < 0 || j >= data.length) continue;
+      const weight = kernel[k + halfWindow];
+      sum += data[j] * weight;
+      weightSum += weight;
+    }
+
+    result.push(sum / weightSum);
+  }
+
+  return result;
+}
+
+/**
+ * Savitzky–Golay filter: least-squares polynomial fit over a sliding window.
+ * Near the edges the window is shifted inward and the fit evaluated off-center,
+ * so the data is never padded.
+ */
+export function savitzkyGolayFilter(data: number[], windowSize: number, polynomialOrder: number): number[] {
+  // Window must be odd and hold more points than the polynomial has terms
+  let window = Math.min(windowSize, data.length);
+  if (window % 2 === 0) window -= 1;
+  const order = Math.max(0, Math.min(Math.floor(polynomialOrder), window - 1));
+  if (window <= 1 || order >= window - 1) return [...data];
+
+  const halfWindow = (window - 1) / 2;
+  const coefficientCache = new Map<number, number[]>();
+  const coefficientsAt = (offset: number): number[] => {
+    let coefficients = coefficientCache.get(offset);
+    if (!coefficients) {
+      coefficients = savitzkyGolayCoefficients(window, order, offset);
+      coefficientCache.set(offset, coefficients);
+    }
+    return coefficients;
+  };
+
+  const result: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const start = Math.max(0, Math.min(i - halfWindow, data.length - window));
+    const coefficients = coefficientsAt(i - start);
+
+    let value = 0;
+    for (let k = 0; k < window; k++) {
+      value += coefficients[k] * data[start + k];
+    }
+    result.push(value);
+  }
+
+  return result;
+}
+
+/**
+ * Weights that evaluate the least-squares polynomial of the given order,
+ * fitted to `window` evenly spaced points, at position `offset` in the window
+ */
+function savitzkyGolayCoefficients(window: number, order: number, offset: number): number[] {
+  const terms = order + 1;
+
+  // Normal matrix AᵀA where A[k][p] = k^p, with k centred on the window
+  const center = (window - 1) / 2;
+  const normal: number[][] = Array.from({ length: terms }, () => new Array(terms).fill(0));
+  for (let k = 0; k < window; k++) {
+    const x = k - center;
+    for (let row = 0; row < terms; row++) {
+      for (let col = 0; col < terms; col++) {
+        normal[row][col] += Math.pow(x, row + col);
+      }
+    }
+  }
+
+  // Solve (AᵀA) z = e(offset) so each weight is A[k]·z
+  const x0 = offset - center;
+  const rhs = Array.from({ length: terms }, (_, p) => Math.pow(x0, p));
+  const z = solveLinearSystem(normal, rhs);
+
+  const coefficients: number[] = [];
+  for (let k = 0; k < window; k++) {
+    const x = k - center;
+    let weight = 0;
+    for (let p = 0; p < terms; p++) {
+      weight += z[p] * Math.pow(x, p);
+    }
+    coefficients.push(weight);
+  }
+  return coefficients;
+}
+
+/**
+ * Gaussian elimination with partial pivoting for small dense systems
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+/**
+ * One-Euro filter (Casiez et al.): a low-pass whose cutoff rises with speed,
+ * so slow drifts are smoothed hard while fast intentional moves keep little lag.
+ * minCutoff and derivativeCutoff are in Hz, beta scales the speed response.
+ */
+export function oneEuroFilter(
+  data: number[],
+  sampleRate: number,
+  minCutoff: number,
+  beta: number,
+  derivativeCutoff: number
+): number[] {
+  if (data.length === 0) return [];
+
+  const alpha = (cutoff: number) => {
+    const tau = 1 / (2 * Math.PI * Math.max(1e-6, cutoff));
+    return 1 / (1 + tau * sampleRate);
+  };
+
+  const result: number[] = [data[0]];
+  let previous = data[0];
+  let previousDerivative = 0;
+
+  for (let i = 1; i < data.length; i++) {
+    const derivative = (data[i] - previous) * sampleRate;
+    const aD = alpha(derivativeCutoff);
+    const smoothedDerivative = previousDerivative + aD * (derivative - previousDerivative);
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const a = alpha(cutoff);
+    const value = previous + a * (data[i] - previous);
+
+    result.push(value);
+    previous = value;
+    previousDerivative = smoothedDerivative;
+  }
+
+  return result;
+}
@@ -4,15 +4,39 @@
 
 import { useEffect, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { Grid } from '@react-three/drei';
+import { Grid, Line } from '@react-three/drei';
 import * as THREE from 'three';
+import { ChannelArrays, DeforumPreview } from '../types';
 
 interface SceneProps {
   onCameraReady: (camera: THREE.PerspectiveCamera) => void;
   onFrame: (camera: THREE.PerspectiveCamera, deltaTime: number) => void;
 }
 
-function SceneContent({ onCameraReady, onFrame }: SceneProps) {
+interface SceneViewProps extends SceneProps {
+  aspect?: number | null; // Letterbox the view to the render's W/H, null = fill the window
+  deforumPreview?: DeforumPreview | null; // Recorded path and the one Deforum flies from the last export
+}
+
+/**
+ * Recorded path in black, the path Deforum flies from the schedules in red
+ */
+function PathOverlay({ preview }: { preview: DeforumPreview }) {
+  const points = (arrays: ChannelArrays) =>
+    arrays.translation_x.map((x, i) => new THREE.Vector3(x, arrays.translation_y[i], arrays.translation_z[i]));
+  const recorded = useMemo(() => points(preview.recorded), [preview]);
+  const deforum = useMemo(() => points(preview.deforum), [preview]);
+
+  if (recorded.length < 2) return null;
+  return (
+    <>
+      <Line points={recorded} color="#000000" lineWidth={2} />
+      <Line points={deforum} color="#ff3434" lineWidth={2} />
+    </>
+  );
+}
+
+function SceneContent({ onCameraReady, onFrame, deforumPreview }: SceneProps & Pick<SceneViewProps, 'deforumPreview'>) {
   const { camera } = useThree();
 
   // Pink sky gradient background (primary to light)
@@ -146,6 +170,9 @@ function SceneContent({ onCameraReady, onFrame }: SceneProps) {
       {/* Ambient light */}
       <ambientLight intensity={0.3} />
 
+      {/* Export preview */}
+      {deforumPreview && <PathOverlay preview={deforumPreview} />}
+
       {/* Scattered objects for reference */}
       {scatteredObjects}
       
@@ -178,27 +205,40 @@ function SceneContent({ onCameraReady, onFrame }: SceneProps) {
   );
 }
 
-export function Scene({ onCameraReady, onFrame }: SceneProps) {
+export function Scene({ onCameraReady, onFrame, aspect, deforumPreview }: SceneViewProps) {
+  const viewStyle: React.CSSProperties = aspect
+    ? {
+        width: `min(100vw, ${100 * aspect}vh)`,
+        height: `min(100vh, ${100 / aspect}vw)`,
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)'
+      }
+    : { width: '100vw', height: '100vh' };
+
   return (
-    <div style={{ width: '100vw', height: '100vh' }}>
-      <Canvas
-        camera={{ position: [0, 1, 0], fov: 70 }}
-        gl={{ antialias: true, alpha: false }}
-        shadows
-        tabIndex={0}
-        style={{ outline: 'none' }}
-        onCreated={({ camera }) => {
-          // Set up camera defaults
-          if (camera instanceof THREE.PerspectiveCamera) {
-            camera.near = 0.1;
-            camera.far = 1000;
-            camera.rotation.set(0, 0, 0, 'YXZ'); // Look straight ahead
-            camera.updateProjectionMatrix();
-          }
-        }}
-      >
-        <SceneContent onCameraReady={onCameraReady} onFrame={onFrame} />
-      </Canvas>
+    <div style={{ width: '100vw', height: '100vh', position: 'relative', backgroundColor: '#000000' }}>
+      <div style={viewStyle}>
+        <Canvas
+          camera={{ position: [0, 1, 0], fov: 70 }}
+          gl={{ antialias: true, alpha: false }}
+          shadows
+          tabIndex={0}
+          style={{ outline: 'none' }}
+          onCreated={({ camera }) => {
+            // Set up camera defaults
+            if (camera instanceof THREE.PerspectiveCamera) {
+              camera.near = 0.1;
+              camera.far = 1000;
+              camera.rotation.set(0, 0, 0, 'YXZ'); // Look straight ahead
+              camera.updateProjectionMatrix();
+            }
+          }}
+        >
+          <SceneContent onCameraReady={onCameraReady} onFrame={onFrame} deforumPreview={deforumPreview} />
+        </Canvas>
+      </div>
     </div>
   );
 }
@@ -24,11 +24,90 @@ export interface ChannelArrays {
   fov: number[];
 }
 
+/**
+ * Which channels the pilot records; disarmed channels are taken from the
+ * active take at record start
+ */
+export type RecordArming = Record<keyof ChannelArrays, boolean>;
+
+export type SmoothingMethod = 'average' | 'gaussian' | 'savitzkyGolay' | 'oneEuro';
+
+/**
+ * How window-based filters treat the ends of a take:
+ * shrink the window, mirror the data, or point-reflect it (keeps the end slope)
+ */
+export type SmoothingBoundary = 'shrink' | 'reflect' | 'pointReflect';
+
+/** Channel groups that get their own smoothing strength */
+export type SmoothingGroup = 'translation' | 'pitchYaw' | 'roll' | 'fov';
+
 export interface SmoothingOptions {
-  method: 'average';
+  method: SmoothingMethod;
   windowSize: number;
   iterations: number;
   nonDestructive: boolean;
+  gaussianSigma?: number; // Gaussian: frames, defaults to windowSize / 6
+  polynomialOrder?: number; // Savitzky–Golay: fit order, defaults to 2
+  minCutoff?: number; // One-Euro: Hz at rest, defaults to 1
+  beta?: number; // One-Euro: speed coefficient, defaults to 0.05
+  derivativeCutoff?: number; // One-Euro: Hz for the speed estimate, defaults to 1
+  groupStrengths?: Record<SmoothingGroup, number>; // 0 = untouched, 1 = full strength, 2 = double
+  range?: SmoothingRange; // Only smooth these frames, undefined = whole take
+  boundary?: SmoothingBoundary; // Defaults to 'shrink'
+  pinStartFrames?: number; // Keep the first N frames exactly
+  pinEndFrames?: number; // Keep the last N frames exactly
+  anchorFrames?: number[]; // Individual frames kept exactly
+  pinFeather?: number; // Frames over which pinned values ease into the smoothed path, defaults to half the window
+  rotationSpace?: 'quaternion' | 'euler'; // Filter orientation as a whole or per Euler axis, defaults to 'quaternion'
+}
+
+export interface SmoothingRange {
+  frameStart: number;
+  frameEnd: number;
+  feather: number; // Frames outside the range over which smoothing fades out
+}
+
+/**
+ * Motion limiter thresholds; 0 disables a limit
+ */
+export interface MotionLimits {
+  maxLinearVelocity: number; // units/s
+  maxLinearAcceleration: number; // units/s²
+  maxLinearJerk: number; // units/s³
+  maxAngularVelocity: number; // degrees/s
+  maxAngularAcceleration: number; // degrees/s²
+  maxAngularJerk: number; // degrees/s³
+}
+
+/**
+ * Non-destructive handheld shake layer on a take
+ */
+export interface ShakeOptions {
+  enabled: boolean;
+  seed: number;
+  frequency: number; // Hz
+  translationAmplitude: number; // Scene units
+  rotationAmplitude: number; // Degrees
+  weights: { x: number; y: number; z: number; pitch: number; yaw: number; roll: number }; // 0..1 per axis
+}
+
+export type ProfileAxis = 'x' | 'y' | 'z';
+
+/**
+ * How camera motion maps onto a Deforum variant's schedules.
+ * Index i of each tuple describes Deforum's x, y or z channel.
+ */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  mode: 'delta' | 'absolute'; // Per-key motion since the previous key, or pose relative to the first key
+  translationAxes: [ProfileAxis, ProfileAxis, ProfileAxis]; // Camera-local axis read by each channel
+  rotationAxes: [ProfileAxis, ProfileAxis, ProfileAxis];
+  translationSigns: [number, number, number]; // 1 or -1
+  rotationSigns: [number, number, number];
+  translationScale: number; // Schedule units per scene unit
+  rotationScale: number; // Schedule units per degree
 }
 
 export interface ExportOptions {
@@ -43,6 +122,48 @@ export interface ExportOptions {
   cadence: number;
   masterScaleTranslate?: number; // -1..1 exponent range, 0 = 1x
   masterScaleRotate?: number; // -1..1 exponent range, 0 = 1x
+  keyframeTolerance?: number; // Drop keys Deforum's linear interpolation reproduces within this error (3D: path error in scene units and degrees), 0 = keep all
+  profile?: ExportProfile; // Defaults to the A1111 Deforum profile
+  animationMode?: '3D' | '2D'; // Defaults to '3D'
+  renderHeight?: number; // 2D: output pixels, defaults to 832 (the FOV is vertical, so width doesn't enter)
+  focusDistance?: number; // 2D: scene units to the plane zoom and pixel translation are measured on, defaults to 10
+}
+
+/**
+ * Schedules for Deforum's 2D animation mode
+ */
+export interface Deforum2DSchedules {
+  angle: string; // Degrees, counterclockwise image rotation per frame
+  zoom: string; // Scale factor per frame, 1 = none
+  translation_x: string; // Pixels per frame
+  translation_y: string;
+  transform_center_x: string; // 0..1 of the image
+  transform_center_y: string;
+}
+
+/**
+ * Summary of the last schedule export
+ */
+export interface ExportReport {
+  keyframesKept: number; // Summed over the six channels
+  keyframesTotal: number;
+  maxDeviation: number; // Largest per-frame schedule error introduced by keyframe reduction
+  roundTripPositionError: number; // Scene units between the recorded path and one rebuilt from the schedules, kept within the keyframe tolerance
+  roundTripRotationError: number; // Degrees, same comparison for orientation
+  deforumPositionError: number; // Scene units, worst frame of the path Deforum flies from the schedules
+  deforumRotationError: number; // Degrees
+}
+
+/**
+ * The path Deforum flies from exported schedules, frame by frame, next to
+ * the recorded one over the exported range
+ */
+export interface DeforumPreview {
+  frameStart: number; // Take frame of index 0 in the arrays below
+  recorded: ChannelArrays;
+  deforum: ChannelArrays;
+  positionErrors: number[]; // Scene units per frame
+  rotationErrors: number[]; // Degrees per frame
 }
 
 export interface DeforumSchedules {
@@ -52,6 +173,68 @@ export interface DeforumSchedules {
   rotation_3d_x: string;
   rotation_3d_y: string;
   rotation_3d_z: string;
+  fov_schedule: string; // Absolute degrees
+  near_schedule: string; // Schedule units, converted with the translation scale
+  far_schedule: string;
+}
+
+export interface PunchInOptions {
+  punchIn: number; // First frame replaced by the new recording
+  punchOut: number | null; // Last frame replaced, null = replace the whole tail
+  crossfadeFrames: number; // Blend length at each seam
+  preRollFrames: number; // Frames played back before handing over to the pilot
+}
+
+/**
+ * Session values read from a Deforum settings file; missing keys stay undefined
+ */
+export interface SessionSettings {
+  fps?: number;
+  width?: number;
+  height?: number;
+  fov?: number; // Degrees, first key of fov_schedule
+  near?: number; // Deforum units, first key of near_schedule
+  far?: number;
+  maxFrames?: number;
+}
+
+/**
+ * Snapshot of a take's path after one edit
+ */
+export interface TakeHistoryEntry {
+  label: string;
+  mergeKey?: string; // Consecutive edits with the same key collapse into one entry
+  samples: Sample[];
+  channelArrays: ChannelArrays | null;
+  originalChannelArrays: ChannelArrays | null;
+  smoothingOptions: SmoothingOptions | null;
+}
+
+export interface Take {
+  id: string;
+  name: string;
+  samples: Sample[];
+  channelArrays: ChannelArrays | null;
+  originalChannelArrays: ChannelArrays | null;
+  smoothingOptions: SmoothingOptions | null; // Last applied smoothing, null = raw
+  exportOptions: ExportOptions | null; // null = use panel defaults
+  shake: ShakeOptions | null; // Layered on top at playback and export, never baked into channelArrays
+  history: TakeHistoryEntry[];
+  historyIndex: number; // Entry matching the current state
+}
+
+/**
+ * Lightweight view of a take for UI lists (no sample data)
+ */
+export interface TakeSummary {
+  id: string;
+  name: string;
+  totalFrames: number;
+  smoothingOptions: SmoothingOptions | null;
+  exportOptions: ExportOptions | null;
+  shake: ShakeOptions | null;
+  history: string[]; // Entry labels, oldest first
+  historyIndex: number;
 }
 
 export interface PilotState {
@@ -82,4 +265,6 @@ export interface CameraControls {
   mouseY: number;
   sensitivity: number;
   shiftPressed: boolean;
+  zoomIn: boolean; // Narrow the FOV while held
+  zoomOut: boolean;
 }